@@ -0,0 +1,157 @@
+import { ProfileStats } from './appEvents';
+import { NightStatField } from './nightStats';
+
+export type AchievementMetric = keyof ProfileStats;
+
+export interface AchievementTier {
+  tier: number;
+  threshold: number;
+  xpReward: number;
+  badge: string;
+}
+
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  metric: AchievementMetric;
+  tiers: AchievementTier[]; // Ordered by threshold, lowest first
+}
+
+export interface UnlockedAchievement {
+  achievement_id: string;
+  tier: number;
+  unlocked_at: string;
+}
+
+export interface AchievementUnlock {
+  achievement: AchievementDefinition;
+  tier: AchievementTier;
+}
+
+// daily_stats counter backing each drink and game metric, for server-side
+// verification. Bars and nights come from verified check-ins instead.
+export const ACHIEVEMENT_NIGHT_STAT_FIELDS: Record<AchievementMetric, NightStatField | null> = {
+  totalBeers: 'beers',
+  totalShots: 'shots',
+  totalBeerTowers: 'beer_towers',
+  totalScoopAndScores: 'scoop_and_scores',
+  totalFunnels: 'funnels',
+  totalShotguns: 'shotguns',
+  poolGamesWon: 'pool_games_won',
+  dartGamesWon: 'dart_games_won',
+  barsHit: null,
+  nightsOut: null,
+};
+
+const tiers = (thresholds: number[], xpRewards: number[], badge: string): AchievementTier[] => {
+  const badgeLevels = ['bronze', 'silver', 'gold', 'platinum'];
+  return thresholds.map((threshold, index) => ({
+    tier: index + 1,
+    threshold,
+    xpReward: xpRewards[index],
+    badge: `${badge}_${badgeLevels[index]}`,
+  }));
+};
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'beer_enthusiast',
+    title: 'Beer Enthusiast',
+    description: 'Drink beers on your nights out',
+    metric: 'totalBeers',
+    tiers: tiers([10, 50, 100, 250], [50, 100, 200, 400], 'beer'),
+  },
+  {
+    id: 'shot_caller',
+    title: 'Shot Caller',
+    description: 'Take shots with your crew',
+    metric: 'totalShots',
+    tiers: tiers([10, 50, 100, 250], [50, 100, 200, 400], 'shot'),
+  },
+  {
+    id: 'tower_of_power',
+    title: 'Tower of Power',
+    description: 'Share beer towers',
+    metric: 'totalBeerTowers',
+    tiers: tiers([1, 5, 15, 30], [50, 100, 200, 400], 'tower'),
+  },
+  {
+    id: 'scoop_master',
+    title: 'Scoop Master',
+    description: 'Win at scoop and score',
+    metric: 'totalScoopAndScores',
+    tiers: tiers([1, 10, 25, 50], [50, 100, 200, 400], 'scoop'),
+  },
+  {
+    id: 'funnel_champion',
+    title: 'Funnel Champion',
+    description: 'Finish funnels',
+    metric: 'totalFunnels',
+    tiers: tiers([1, 10, 25, 50], [50, 100, 200, 400], 'funnel'),
+  },
+  {
+    id: 'shotgun_pro',
+    title: 'Shotgun Pro',
+    description: 'Shotgun beers',
+    metric: 'totalShotguns',
+    tiers: tiers([1, 10, 25, 50], [50, 100, 200, 400], 'shotgun'),
+  },
+  {
+    id: 'pool_shark',
+    title: 'Pool Shark',
+    description: 'Win games of pool',
+    metric: 'poolGamesWon',
+    tiers: tiers([1, 10, 25, 50], [50, 100, 200, 400], 'pool'),
+  },
+  {
+    id: 'bullseye',
+    title: 'Bullseye',
+    description: 'Win games of darts',
+    metric: 'dartGamesWon',
+    tiers: tiers([1, 10, 25, 50], [50, 100, 200, 400], 'darts'),
+  },
+  {
+    id: 'bar_hopper',
+    title: 'Bar Hopper',
+    description: 'Visit different bars',
+    metric: 'barsHit',
+    tiers: tiers([5, 15, 30, 50], [75, 150, 300, 500], 'bars'),
+  },
+  {
+    id: 'night_owl',
+    title: 'Night Owl',
+    description: 'Go out for the night',
+    metric: 'nightsOut',
+    tiers: tiers([5, 20, 50, 100], [75, 150, 300, 500], 'nights'),
+  },
+];
+
+export const getAchievement = (achievementId: string): AchievementDefinition | undefined => {
+  return ACHIEVEMENTS.find(a => a.id === achievementId);
+};
+
+export const getAchievementTier = (achievementId: string, tier: number): AchievementTier | undefined => {
+  return getAchievement(achievementId)?.tiers.find(t => t.tier === tier);
+};
+
+// Deterministic per user and tier, so the XP ledger grants each tier once no
+// matter how many devices report the unlock
+export const getAchievementIdempotencyKey = (achievementId: string, tier: number) => {
+  return `achievement:${achievementId}:${tier}`;
+};
+
+// Tiers reached by these stats that haven't been unlocked yet, lowest first
+export const evaluateAchievements = (
+  stats: ProfileStats,
+  unlocked: UnlockedAchievement[]
+): AchievementUnlock[] => {
+  const unlockedKeys = new Set((unlocked || []).map(u => `${u.achievement_id}:${u.tier}`));
+
+  return ACHIEVEMENTS.flatMap(achievement => {
+    const value = stats[achievement.metric] || 0;
+    return achievement.tiers
+      .filter(tier => value >= tier.threshold && !unlockedKeys.has(`${achievement.id}:${tier.tier}`))
+      .map(tier => ({ achievement, tier }));
+  });
+};
@@ -0,0 +1,44 @@
+// Activity types friends can see in the feed. Each user chooses which of
+// their own types are shared.
+export type FeedActivityType = 'check_in' | 'like' | 'rank_up' | 'achievement';
+
+export type FeedSettings = Record<FeedActivityType, boolean>;
+
+export const FEED_ACTIVITY_TYPES: readonly FeedActivityType[] = ['check_in', 'like', 'rank_up', 'achievement'];
+
+export const DEFAULT_FEED_SETTINGS: FeedSettings = {
+  check_in: true,
+  like: true,
+  rank_up: true,
+  achievement: true,
+};
+
+export const normalizeFeedSettings = (raw: unknown): FeedSettings => {
+  const settings = { ...DEFAULT_FEED_SETTINGS };
+  if (!raw || typeof raw !== 'object') return settings;
+
+  FEED_ACTIVITY_TYPES.forEach(type => {
+    const value = (raw as Record<string, unknown>)[type];
+    if (typeof value === 'boolean') settings[type] = value;
+  });
+
+  return settings;
+};
+
+export interface FeedItem {
+  // Unique across sources, e.g. "check_in:<row id>"
+  id: string;
+  type: FeedActivityType;
+  user_id: string;
+  username: string;
+  profile_picture: string | null;
+  created_at: string;
+  venue_id?: string;
+  // Liked time slot, e.g. "22:30"
+  time_slot?: string | null;
+  rank_title?: string;
+  level?: number;
+  achievement_id?: string;
+  achievement_title?: string;
+  achievement_tier?: number;
+}
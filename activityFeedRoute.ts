@@ -0,0 +1,225 @@
+import { z } from "zod";
+import { protectedProcedure } from "./protectedProcedure";
+import { supabase } from "@/lib/supabase";
+import { getAchievement } from "./achievements";
+import { FEED_ACTIVITY_TYPES, FeedActivityType, FeedItem, normalizeFeedSettings } from "./activityFeed";
+import { canViewField, normalizePrivacySettings } from "./privacy";
+import { getBlockedIds, getFriendIds } from "./profileCards";
+
+interface FeedAuthor {
+  username: string;
+  profile_picture: string | null;
+}
+
+// Where the previous page ended. Items are ordered by created_at, then by
+// type in FEED_ACTIVITY_TYPES order, then by row id, all newest first, so
+// items sharing a timestamp are neither skipped nor repeated.
+interface FeedCursor {
+  createdAt: string;
+  type: FeedActivityType;
+  rowId: string;
+}
+
+// Cursors look like "<created_at>|<item id>", item ids like "check_in:<row id>"
+const encodeCursor = (item: FeedItem) => `${item.created_at}|${item.id}`;
+
+const decodeCursor = (cursor: string): FeedCursor | null => {
+  const itemStart = cursor.indexOf('|');
+  const createdAt = cursor.slice(0, itemStart);
+  const itemId = cursor.slice(itemStart + 1);
+  const typeEnd = itemId.indexOf(':');
+  const type = itemId.slice(0, typeEnd) as FeedActivityType;
+  const rowId = itemId.slice(typeEnd + 1);
+
+  if (itemStart < 0 || typeEnd < 0 || !rowId) return null;
+  if (Number.isNaN(Date.parse(createdAt)) || !FEED_ACTIVITY_TYPES.includes(type)) return null;
+  return { createdAt, type, rowId };
+};
+
+// PostgREST filter for the rows of one source that come after the cursor
+const getCursorFilter = (type: FeedActivityType, cursor: FeedCursor): string => {
+  const createdAt = `"${cursor.createdAt}"`;
+  const order = FEED_ACTIVITY_TYPES.indexOf(type) - FEED_ACTIVITY_TYPES.indexOf(cursor.type);
+
+  if (order < 0) return `created_at.lt.${createdAt}`;
+  if (order > 0) return `created_at.lte.${createdAt}`;
+  return `created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt."${cursor.rowId}")`;
+};
+
+// Newest first; ties keep each source's own (id descending) order
+const compareFeedItems = (a: FeedItem, b: FeedItem) => {
+  if (a.created_at !== b.created_at) return a.created_at < b.created_at ? 1 : -1;
+  return FEED_ACTIVITY_TYPES.indexOf(a.type) - FEED_ACTIVITY_TYPES.indexOf(b.type);
+};
+
+// Friends who share each activity type with their friends
+const getVisibleAuthors = (profiles: any[]): Record<FeedActivityType, string[]> => {
+  const visible: Record<FeedActivityType, string[]> = { check_in: [], like: [], rank_up: [], achievement: [] };
+
+  profiles.forEach(profile => {
+    const feed = normalizeFeedSettings(profile.feed_settings);
+    // Check-ins also reveal where someone has been
+    const barsVisible = canViewField(normalizePrivacySettings(profile.privacy_settings), 'visited_bars', 'friend');
+
+    if (feed.check_in && barsVisible) visible.check_in.push(profile.id);
+    if (feed.like) visible.like.push(profile.id);
+    if (feed.rank_up) visible.rank_up.push(profile.id);
+    if (feed.achievement) visible.achievement.push(profile.id);
+  });
+
+  return visible;
+};
+
+// Each source returns at most `limit` rows past the cursor; merging and
+// cutting to `limit` again gives a correct page across all of them
+const loadFeedSources = async (visible: Record<FeedActivityType, string[]>, cursor: FeedCursor | null, limit: number) => {
+  const after = <Q extends { or: (filters: string) => Q }>(query: Q, type: FeedActivityType): Q => {
+    return cursor ? query.or(getCursorFilter(type, cursor)) : query;
+  };
+
+  const interactions = (type: 'check_in' | 'like', userIds: string[]) => {
+    let query = after(
+      supabase
+        .from('venue_interactions')
+        .select('id, user_id, venue_id, interaction_type, time_slot, created_at')
+        .in('user_id', userIds)
+        .eq('interaction_type', type),
+      type
+    )
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
+
+    // Unverified check-ins are private history, not activity
+    if (type === 'check_in') query = query.eq('verified', true);
+    return query;
+  };
+
+  const empty = Promise.resolve({ data: [] as any[], error: null });
+
+  const [checkIns, likes, rankUps, achievements] = await Promise.all([
+    visible.check_in.length > 0 ? interactions('check_in', visible.check_in) : empty,
+    visible.like.length > 0 ? interactions('like', visible.like) : empty,
+    visible.rank_up.length > 0
+      ? after(
+          supabase
+            .from('rank_history')
+            .select('id, user_id, level, title, created_at')
+            .in('user_id', visible.rank_up),
+          'rank_up'
+        )
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(limit)
+      : empty,
+    visible.achievement.length > 0
+      ? after(
+          supabase
+            .from('xp_ledger')
+            .select('id, user_id, idempotency_key, created_at')
+            .in('user_id', visible.achievement)
+            .eq('activity_type', 'special_achievement'),
+          'achievement'
+        )
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(limit)
+      : empty,
+  ]);
+
+  const failed = [checkIns, likes, rankUps, achievements].find(result => result.error);
+  if (failed?.error) throw failed.error;
+
+  return {
+    checkIns: checkIns.data || [],
+    likes: likes.data || [],
+    rankUps: rankUps.data || [],
+    achievements: achievements.data || [],
+  };
+};
+
+export const getActivityFeedProcedure = protectedProcedure
+  .input(z.object({
+    // nextCursor of the previous page
+    cursor: z.string().max(200).optional(),
+    limit: z.number().int().min(1).max(50).optional(),
+  }))
+  .query(async ({ ctx, input }) => {
+    const userId = ctx.user.id;
+    const limit = input.limit ?? 20;
+    const cursor = input.cursor ? decodeCursor(input.cursor) : null;
+
+    if (input.cursor && !cursor) {
+      return {
+        success: false,
+        code: 'INVALID_CURSOR',
+        error: 'Invalid cursor',
+        message: 'Failed to load activity feed'
+      };
+    }
+
+    try {
+      const [friendIds, blockedIds] = await Promise.all([getFriendIds(userId), getBlockedIds(userId)]);
+      const authorIds = Array.from(friendIds).filter(id => !blockedIds.has(id));
+
+      if (authorIds.length === 0) {
+        return { success: true, items: [] as FeedItem[], nextCursor: null };
+      }
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, username, profile_picture, profile_picture_thumbnail, privacy_settings, feed_settings')
+        .in('id', authorIds);
+
+      if (profilesError) throw profilesError;
+
+      const authors = new Map<string, FeedAuthor>((profiles || []).map((profile: any) => [profile.id, {
+        username: profile.username,
+        profile_picture: profile.profile_picture_thumbnail || profile.profile_picture || null,
+      }]));
+
+      const sources = await loadFeedSources(getVisibleAuthors(profiles || []), cursor, limit);
+
+      const item = (type: FeedActivityType, row: any, extra: Partial<FeedItem>): FeedItem => ({
+        id: `${type}:${row.id}`,
+        type,
+        user_id: row.user_id,
+        username: authors.get(row.user_id)?.username || 'Unknown',
+        profile_picture: authors.get(row.user_id)?.profile_picture || null,
+        created_at: row.created_at,
+        ...extra,
+      });
+
+      const items: FeedItem[] = [
+        ...sources.checkIns.map((row: any) => item('check_in', row, { venue_id: row.venue_id })),
+        ...sources.likes.map((row: any) => item('like', row, { venue_id: row.venue_id, time_slot: row.time_slot })),
+        ...sources.rankUps.map((row: any) => item('rank_up', row, { level: row.level, rank_title: row.title })),
+        ...sources.achievements.map((row: any) => {
+          // Keys look like achievement:<id>:<tier>
+          const [, achievementId, tier] = String(row.idempotency_key).split(':');
+          return item('achievement', row, {
+            achievement_id: achievementId,
+            achievement_title: getAchievement(achievementId)?.title || achievementId,
+            achievement_tier: Number(tier) || undefined,
+          });
+        }),
+      ]
+        .sort(compareFeedItems)
+        .slice(0, limit);
+
+      return {
+        success: true,
+        items,
+        nextCursor: items.length === limit ? encodeCursor(items[items.length - 1]) : null,
+      };
+    } catch (error) {
+      console.error('Error loading activity feed:', error);
+      return {
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to load activity feed'
+      };
+    }
+  });
+
+export default getActivityFeedProcedure;
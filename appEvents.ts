@@ -0,0 +1,81 @@
+import { XPActivityType } from './xpValues';
+import { RankInfo } from './ranks';
+import { NightStatCounts } from './nightStats';
+import { GuardrailStatus } from './guardrails';
+
+// Lifetime totals in the shape achievement checks consume
+export interface ProfileStats {
+  totalBeers: number;
+  totalShots: number;
+  totalBeerTowers: number;
+  totalScoopAndScores: number;
+  totalFunnels: number;
+  totalShotguns: number;
+  poolGamesWon: number;
+  dartGamesWon: number;
+  barsHit: number;
+  nightsOut: number;
+}
+
+// Every event stores can publish or subscribe to, keyed by name
+export interface AppEventMap {
+  // interactionId is the server's venue_interactions row, emitted once verified
+  checkedIn: { venueId: string; isNewBar: boolean; timeSlot: string; timestamp: string; interactionId: string };
+  venueLiked: { venueId: string; timeSlot: string; timestamp: string; interactionId: string };
+  xpAwarded: { type: XPActivityType; amount: number; totalXP: number; description: string; venueId?: string };
+  statsChanged: { profileId: string; stats: ProfileStats };
+  levelUp: { previous: RankInfo; current: RankInfo };
+  drinksLogged: { counts: NightStatCounts; nightKey: string };
+  drunkScaleSubmitted: { rating: number; timestamp: string };
+  guardrailTriggered: GuardrailStatus;
+  nightStarted: { sessionId: string; nightKey: string; startMethod: 'check_in' | 'manual' };
+  nightCompleted: { sessionId: string; nightKey: string; startedAt: string; endedAt: string; venueCount: number };
+  achievementUnlocked: {
+    achievementId: string;
+    title: string;
+    tier: number;
+    badge: string;
+    xpReward: number;
+    unlockedAt: string;
+  };
+}
+
+type Listener<T> = (payload: T) => void;
+
+export interface EventBus<Events> {
+  on: <K extends keyof Events>(event: K, listener: Listener<Events[K]>) => () => void;
+  off: <K extends keyof Events>(event: K, listener: Listener<Events[K]>) => void;
+  emit: <K extends keyof Events>(event: K, payload: Events[K]) => void;
+}
+
+// Listeners run synchronously in subscription order. A throwing listener is
+// logged and doesn't stop the others.
+export const createEventBus = <Events>(): EventBus<Events> => {
+  const listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  const off = <K extends keyof Events>(event: K, listener: Listener<Events[K]>) => {
+    listeners[event]?.delete(listener);
+  };
+
+  return {
+    on: (event, listener) => {
+      const set = listeners[event] || (listeners[event] = new Set());
+      set.add(listener);
+      return () => off(event, listener);
+    },
+    off,
+    emit: (event, payload) => {
+      const set = listeners[event];
+      if (!set) return;
+      Array.from(set).forEach(listener => {
+        try {
+          listener(payload);
+        } catch (error) {
+          console.warn(`Error in ${String(event)} listener:`, error);
+        }
+      });
+    },
+  };
+};
+
+export const appEvents = createEventBus<AppEventMap>();
@@ -0,0 +1,256 @@
+import { z } from "zod";
+import { protectedProcedure } from "./protectedProcedure";
+import { CLIENT_XP_ACTIVITY_TYPES, ClientXPActivityType, XP_VALUES } from "./xpValues";
+import { appendXPLedgerEntry, hasLedgerEntry, syncXPTotal } from "./xpLedger";
+import {
+  ACHIEVEMENT_NIGHT_STAT_FIELDS,
+  AchievementMetric,
+  getAchievement,
+  getAchievementIdempotencyKey,
+  getAchievementTier,
+} from "./achievements";
+import { NightStatField } from "./nightStats";
+import { supabase } from "@/lib/supabase";
+
+const NIGHT_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface AwardXpInput {
+  activityType: ClientXPActivityType;
+  interactionId?: string;
+  nightKey?: string;
+  achievementId?: string;
+  achievementTier?: number;
+}
+
+interface InteractionRow {
+  id: string;
+  venue_id: string;
+  interaction_type: 'check_in' | 'like';
+  verified: boolean | null;
+}
+
+// What the server is willing to grant, with a key derived from the record
+// that backs it, so the same check-in or night can never pay out twice
+interface VerifiedAward {
+  xpAwarded: number;
+  idempotencyKey: string;
+  venueId?: string;
+}
+
+interface RejectedAward {
+  code: string;
+  error: string;
+}
+
+const loadInteraction = async (userId: string, interactionId: string): Promise<InteractionRow | null> => {
+  const { data, error } = await supabase
+    .from('venue_interactions')
+    .select('id, venue_id, interaction_type, verified')
+    .eq('id', interactionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as InteractionRow | null) || null;
+};
+
+// An achievement metric recomputed from records the app can't write directly:
+// daily_stats for drinks and games, verified check-ins for bars and nights
+const getVerifiedMetricValue = async (userId: string, metric: AchievementMetric): Promise<number> => {
+  const nightStatField = ACHIEVEMENT_NIGHT_STAT_FIELDS[metric];
+
+  if (nightStatField) {
+    const { data, error } = await supabase
+      .from('daily_stats')
+      .select(nightStatField)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    return ((data || []) as Partial<Record<NightStatField, number | null>>[])
+      .reduce((sum, day) => sum + (day[nightStatField] || 0), 0);
+  }
+
+  const { data: checkIns, error } = await supabase
+    .from('venue_interactions')
+    .select('venue_id, night_key')
+    .eq('user_id', userId)
+    .eq('interaction_type', 'check_in')
+    .eq('verified', true);
+
+  if (error) throw error;
+
+  const rows = (checkIns || []) as { venue_id: string; night_key: string | null }[];
+
+  if (metric === 'barsHit') {
+    return new Set(rows.map(row => row.venue_id)).size;
+  }
+
+  // A night out is any night with a verified check-in or logged stats
+  const { data: days, error: daysError } = await supabase
+    .from('daily_stats')
+    .select('date')
+    .eq('user_id', userId);
+
+  if (daysError) throw daysError;
+
+  const nights = new Set<string>(((days || []) as { date: string }[]).map(day => day.date));
+  rows.forEach(row => {
+    if (row.night_key) nights.add(row.night_key);
+  });
+  return nights.size;
+};
+
+const verifyAward = async (userId: string, input: AwardXpInput): Promise<VerifiedAward | RejectedAward> => {
+  switch (input.activityType) {
+    case 'check_in':
+    case 'visit_new_bar':
+    case 'like_bar': {
+      const expectedType = input.activityType === 'like_bar' ? 'like' : 'check_in';
+      const interaction = input.interactionId ? await loadInteraction(userId, input.interactionId) : null;
+
+      if (
+        !interaction ||
+        interaction.interaction_type !== expectedType ||
+        (expectedType === 'check_in' && interaction.verified !== true)
+      ) {
+        return {
+          code: 'INTERACTION_NOT_VERIFIED',
+          error: `${input.activityType} needs a verified ${expectedType} record`,
+        };
+      }
+
+      if (input.activityType === 'visit_new_bar') {
+        // A new bar can only be new once, whichever device reports it
+        const alreadyVisited = await hasLedgerEntry(userId, 'visit_new_bar', interaction.venue_id);
+        if (alreadyVisited) {
+          return { code: 'ALREADY_AWARDED', error: 'XP for this bar was already awarded' };
+        }
+
+        return {
+          xpAwarded: XP_VALUES.visit_new_bar,
+          idempotencyKey: `visit_new_bar:${interaction.venue_id}`,
+          venueId: interaction.venue_id,
+        };
+      }
+
+      return {
+        xpAwarded: XP_VALUES[input.activityType],
+        idempotencyKey: `${input.activityType}:${interaction.id}`,
+        venueId: interaction.venue_id,
+      };
+    }
+
+    // A night only counts once the user has a verified check-in during it
+    case 'complete_night_out': {
+      if (!input.nightKey || !NIGHT_KEY_PATTERN.test(input.nightKey)) {
+        return { code: 'NIGHT_REQUIRED', error: 'complete_night_out requires a nightKey' };
+      }
+
+      const { count, error } = await supabase
+        .from('venue_interactions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('interaction_type', 'check_in')
+        .eq('verified', true)
+        .eq('night_key', input.nightKey);
+
+      if (error) throw error;
+
+      if (!count) {
+        return { code: 'NIGHT_NOT_VERIFIED', error: 'No verified check-in that night' };
+      }
+
+      return {
+        xpAwarded: XP_VALUES.complete_night_out,
+        idempotencyKey: `complete_night_out:${input.nightKey}`,
+      };
+    }
+
+    // Achievement XP comes from the tier definition and is only granted once
+    // the server's own records reach the tier's threshold
+    case 'special_achievement': {
+      const achievement = input.achievementId ? getAchievement(input.achievementId) : undefined;
+      const tier = achievement && input.achievementTier
+        ? getAchievementTier(achievement.id, input.achievementTier)
+        : undefined;
+
+      if (!achievement || !tier) {
+        return { code: 'UNKNOWN_ACHIEVEMENT', error: 'Unknown achievement or tier' };
+      }
+
+      const value = await getVerifiedMetricValue(userId, achievement.metric);
+
+      if (value < tier.threshold) {
+        return {
+          code: 'ACHIEVEMENT_NOT_EARNED',
+          error: `${achievement.title} tier ${tier.tier} has not been reached`,
+        };
+      }
+
+      return {
+        xpAwarded: tier.xpReward,
+        idempotencyKey: getAchievementIdempotencyKey(achievement.id, tier.tier),
+      };
+    }
+  }
+};
+
+export const awardXpProcedure = protectedProcedure
+  .input(z.object({
+    activityType: z.enum(CLIENT_XP_ACTIVITY_TYPES),
+    description: z.string().max(200).optional(),
+    // The venue_interactions row behind check_in, visit_new_bar and like_bar
+    interactionId: z.string().min(1).max(64).optional(),
+    nightKey: z.string().max(10).optional(),
+    achievementId: z.string().max(64).optional(),
+    achievementTier: z.number().int().positive().optional(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const userId = ctx.user.id;
+
+    try {
+      const award = await verifyAward(userId, input);
+
+      if ('code' in award) {
+        return {
+          success: false,
+          code: award.code,
+          error: award.error,
+          message: 'Failed to award XP',
+          totalXP: await syncXPTotal(userId),
+        };
+      }
+
+      const result = await appendXPLedgerEntry({
+        userId,
+        activityType: input.activityType,
+        xpAwarded: award.xpAwarded,
+        idempotencyKey: award.idempotencyKey,
+        description: input.description,
+        venueId: award.venueId,
+      });
+
+      const totalXP = await syncXPTotal(userId, result.duplicate ? 0 : result.xpAwarded);
+
+      console.log(`XP ${result.duplicate ? 'replayed' : 'awarded'} for ${userId}: ${input.activityType} (+${result.xpAwarded}), total ${totalXP}`);
+
+      return {
+        success: true,
+        duplicate: result.duplicate,
+        xpAwarded: result.xpAwarded,
+        totalXP,
+        message: 'XP awarded successfully'
+      };
+    } catch (error) {
+      console.error('Error awarding XP:', error);
+      return {
+        success: false,
+        code: 'INTERNAL',
+        error: 'Internal server error',
+        message: 'Failed to award XP'
+      };
+    }
+  });
+
+export default awardXpProcedure;
@@ -0,0 +1,62 @@
+import { protectedProcedure } from "./protectedProcedure";
+import { supabase } from "@/lib/supabase";
+
+// Someone the user blocked. Profile cards leave blocked users out, so this
+// list carries just enough to show and unblock them.
+export interface BlockedUser {
+  id: string;
+  user_id: string;
+  username: string;
+  created_at: string;
+}
+
+export const getBlockedUsersProcedure = protectedProcedure
+  .query(async ({ ctx }) => {
+    const userId = ctx.user.id;
+
+    try {
+      const { data: blocks, error } = await supabase
+        .from('blocked_users')
+        .select('id, blocked_id, created_at')
+        .eq('blocker_id', userId);
+
+      if (error) throw error;
+
+      const blockedIds = Array.from(new Set((blocks || []).map((row: any) => row.blocked_id).filter(Boolean)));
+      const usernames: Record<string, string> = {};
+
+      if (blockedIds.length > 0) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from('profiles')
+          .select('id, username')
+          .in('id', blockedIds);
+
+        if (profilesError) throw profilesError;
+
+        (profiles || []).forEach((profile: any) => {
+          usernames[profile.id] = profile.username;
+        });
+      }
+
+      const blockedUsers: BlockedUser[] = (blocks || []).map((row: any) => ({
+        id: row.id,
+        user_id: row.blocked_id,
+        username: usernames[row.blocked_id] || 'Unknown',
+        created_at: row.created_at,
+      }));
+
+      return {
+        success: true,
+        blockedUsers,
+      };
+    } catch (error) {
+      console.error('Error loading blocked users:', error);
+      return {
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to load blocked users'
+      };
+    }
+  });
+
+export default getBlockedUsersProcedure;
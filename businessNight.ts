@@ -0,0 +1,154 @@
+// A "business night" runs from the reset hour on one day until the reset hour
+// on the next, in the venue's own time zone, so a night out that crosses
+// midnight is still one night. Nights are identified by the calendar date
+// they started on (YYYY-MM-DD).
+
+interface BusinessNightConfig {
+  resetHour: number;
+  resetMinute: number;
+  // IANA zone used when a venue has none registered; undefined means device local time
+  defaultTimeZone?: string;
+}
+
+interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+let config: BusinessNightConfig = {
+  resetHour: 5,
+  resetMinute: 0,
+  defaultTimeZone: undefined,
+};
+
+const venueTimeZones: Record<string, string> = {};
+let activeVenueId: string | null = null;
+
+export const configureBusinessNight = (overrides: Partial<BusinessNightConfig>) => {
+  config = { ...config, ...overrides };
+};
+
+export const getBusinessNightConfig = (): BusinessNightConfig => ({ ...config });
+
+export const setVenueTimeZone = (venueId: string, timeZone: string) => {
+  if (!venueId || !timeZone) return;
+  venueTimeZones[venueId] = timeZone;
+};
+
+export const getVenueTimeZone = (venueId?: string | null): string | undefined => {
+  return (venueId && venueTimeZones[venueId]) || config.defaultTimeZone;
+};
+
+// Remember where the user last checked in so per-user limits (nights out,
+// drunk scale) follow the same night as the bar they're at
+export const setActiveVenue = (venueId: string | null) => {
+  activeVenueId = venueId;
+};
+
+export const getActiveTimeZone = (): string | undefined => getVenueTimeZone(activeVenueId);
+
+const getWallClock = (date: Date, timeZone?: string): WallClock => {
+  if (timeZone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        hourCycle: 'h23',
+      }).formatToParts(date);
+
+      const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+
+      return {
+        year: part('year'),
+        month: part('month'),
+        day: part('day'),
+        hour: part('hour') % 24,
+        minute: part('minute'),
+      };
+    } catch (error) {
+      console.warn(`Unsupported time zone ${timeZone}, falling back to device time:`, error);
+    }
+  }
+
+  return {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+  };
+};
+
+const isBeforeReset = (clock: WallClock): boolean => {
+  return clock.hour < config.resetHour ||
+    (clock.hour === config.resetHour && clock.minute < config.resetMinute);
+};
+
+const formatDateKey = (year: number, month: number, day: number): string => {
+  // Date.UTC normalises overflow, e.g. day 0 becomes the last day of the previous month
+  const normalised = new Date(Date.UTC(year, month - 1, day));
+  return normalised.toISOString().slice(0, 10);
+};
+
+export const getBusinessNightKey = (date: Date | string = new Date(), timeZone?: string): string => {
+  const clock = getWallClock(new Date(date), timeZone);
+  const dayOffset = isBeforeReset(clock) ? -1 : 0;
+  return formatDateKey(clock.year, clock.month, clock.day + dayOffset);
+};
+
+export const isSameBusinessNight = (
+  date1: Date | string,
+  date2: Date | string,
+  timeZone?: string
+): boolean => {
+  try {
+    return getBusinessNightKey(date1, timeZone) === getBusinessNightKey(date2, timeZone);
+  } catch {
+    return false;
+  }
+};
+
+// Half-hour slot a moment falls in on the venue's wall clock, e.g. 22:47 -> '22:30'
+export const getTimeSlotKey = (date: Date | string = new Date(), timeZone?: string): string => {
+  const clock = getWallClock(new Date(date), timeZone);
+  const hours = clock.hour.toString().padStart(2, '0');
+  return `${hours}:${clock.minute >= 30 ? '30' : '00'}`;
+};
+
+// True when `since` belongs to an earlier business night than now (or is missing)
+export const hasBusinessNightChanged = (since?: string | null, timeZone?: string): boolean => {
+  if (!since) return true;
+
+  try {
+    return !isSameBusinessNight(since, new Date(), timeZone);
+  } catch {
+    return true;
+  }
+};
+
+// The instant the current business night ends
+export const getNextBusinessNightReset = (date: Date = new Date(), timeZone?: string): Date => {
+  const clock = getWallClock(date, timeZone);
+  const dayOffset = isBeforeReset(clock) ? 0 : 1;
+
+  // Difference between the zone's wall clock and UTC at this moment
+  const wallClockAsUTC = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute);
+  const offsetMs = wallClockAsUTC - Math.floor(date.getTime() / 60000) * 60000;
+
+  const resetWallClockAsUTC = Date.UTC(
+    clock.year,
+    clock.month - 1,
+    clock.day + dayOffset,
+    config.resetHour,
+    config.resetMinute
+  );
+
+  return new Date(resetWallClockAsUTC - offsetMs);
+};
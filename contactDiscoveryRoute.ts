@@ -0,0 +1,124 @@
+import { z } from "zod";
+import { protectedProcedure } from "./protectedProcedure";
+import { supabase } from "@/lib/supabase";
+import { PHONE_HASH_PATTERN } from "./phoneHash";
+import { canViewField, normalizePrivacySettings, PrivacySettings } from "./privacy";
+import { getFriendIds, loadProfileCards } from "./profileCards";
+import { loadFriendshipStatuses, UserSearchResult } from "./userSearchRoute";
+
+// Phone hashes are unsalted, so the space of numbers is small enough to walk.
+// Capping how many a user can check keeps discovery to their own contacts.
+const CONTACT_BATCH_SIZE = 500;
+const DAILY_HASH_LIMIT = 2000;
+const HOURLY_REQUEST_LIMIT = 20;
+
+// contact_index is the position of the matching hash in the request, so the
+// hash itself never has to come back from the server
+export interface ContactMatch extends Omit<UserSearchResult, 'match'> {
+  contact_index: number;
+}
+
+interface PhoneHashRow {
+  id: string;
+  phone_hash: string;
+  privacy_settings: Partial<PrivacySettings> | null;
+}
+
+interface DiscoveryLogRow {
+  hash_count: number;
+  created_at: string;
+}
+
+// Records this request and reports whether it, together with the user's
+// earlier ones, stays within the limits. Requests over the limit still count.
+const claimDiscoveryAllowance = async (userId: string, hashCount: number): Promise<boolean> => {
+  const { error: logError } = await supabase
+    .from('contact_discovery_log')
+    .insert({ user_id: userId, hash_count: hashCount });
+
+  if (logError) throw logError;
+
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const { data, error } = await supabase
+    .from('contact_discovery_log')
+    .select('hash_count, created_at')
+    .eq('user_id', userId)
+    .gte('created_at', since.toISOString());
+
+  if (error) throw error;
+
+  const rows = (data || []) as DiscoveryLogRow[];
+  const hourAgo = Date.now() - 60 * 60 * 1000;
+  const hashesToday = rows.reduce((sum, row) => sum + row.hash_count, 0);
+  const requestsThisHour = rows.filter(row => Date.parse(row.created_at) >= hourAgo).length;
+
+  return hashesToday <= DAILY_HASH_LIMIT && requestsThisHour <= HOURLY_REQUEST_LIMIT;
+};
+
+// Matches a batch of device-hashed contact numbers against profiles. Hashes
+// are only compared, never stored or logged.
+export const discoverContactsProcedure = protectedProcedure
+  .input(z.object({
+    phoneHashes: z.array(z.string().regex(PHONE_HASH_PATTERN)).min(1).max(CONTACT_BATCH_SIZE),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const userId = ctx.user.id;
+
+    try {
+      const allowed = await claimDiscoveryAllowance(userId, input.phoneHashes.length);
+      if (!allowed) {
+        return {
+          success: false,
+          code: 'RATE_LIMITED',
+          error: 'Too many contacts checked, try again tomorrow',
+          message: 'Failed to find contacts'
+        };
+      }
+
+      const { data: matches, error } = await supabase
+        .from('profiles')
+        .select('id, phone_hash, privacy_settings')
+        .in('phone_hash', Array.from(new Set(input.phoneHashes)))
+        .neq('id', userId);
+
+      if (error) throw error;
+
+      const friendIds = await getFriendIds(userId);
+
+      // Respect each person's choice about being found from contact books
+      const discoverable = ((matches || []) as PhoneHashRow[]).filter(row => canViewField(
+        normalizePrivacySettings(row.privacy_settings),
+        'phone_discovery',
+        friendIds.has(row.id) ? 'friend' : 'other'
+      ));
+
+      const ids = discoverable.map(row => row.id);
+      const [cards, statuses] = await Promise.all([
+        loadProfileCards(userId, ids),
+        loadFriendshipStatuses(userId, ids),
+      ]);
+
+      const indexById = new Map<string, number>(
+        discoverable.map(row => [row.id, input.phoneHashes.indexOf(row.phone_hash)])
+      );
+      const results: ContactMatch[] = cards.map(card => ({
+        ...card,
+        friendship_status: statuses[card.id] || 'none',
+        contact_index: indexById.get(card.id)!,
+      }));
+
+      return {
+        success: true,
+        matches: results,
+      };
+    } catch (error) {
+      console.error('Error discovering contacts:', error);
+      return {
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to find contacts'
+      };
+    }
+  });
+
+export default discoverContactsProcedure;
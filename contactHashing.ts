@@ -0,0 +1,28 @@
+import * as Crypto from 'expo-crypto';
+import { normalizePhone } from './profileValidation';
+
+// Normalizes each contact number to E.164 and hashes it on the device. The
+// result maps hash -> the original entries so matches can be shown against
+// the user's own contact names. Numbers that can't be normalized are skipped.
+export const hashContactPhones = async (
+  phoneNumbers: string[],
+  defaultCountryCode?: string
+): Promise<Map<string, string[]>> => {
+  const byE164 = new Map<string, string[]>();
+
+  phoneNumbers.forEach(raw => {
+    const e164 = normalizePhone(raw, defaultCountryCode);
+    if (!e164) return;
+    byE164.set(e164, [...(byE164.get(e164) || []), raw]);
+  });
+
+  const hashed = new Map<string, string[]>();
+  await Promise.all(
+    Array.from(byE164.entries()).map(async ([e164, originals]) => {
+      const hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, e164);
+      hashed.set(hash.toLowerCase(), originals);
+    })
+  );
+
+  return hashed;
+};
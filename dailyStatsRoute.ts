@@ -0,0 +1,289 @@
+import { z } from "zod";
+import { protectedProcedure } from "./protectedProcedure";
+import { supabase } from "@/lib/supabase";
+import { XP_VALUES } from "./xpValues";
+import { appendXPLedgerEntry, syncXPTotal } from "./xpLedger";
+import { getBusinessNightConfig, getBusinessNightKey } from "./businessNight";
+import { NIGHT_STAT_FIELDS, NIGHT_STAT_XP_TYPES, NightStatCounts, NightStatField } from "./nightStats";
+import { evaluateGuardrails, GuardrailSettings, isDrinkingXPType } from "./guardrails";
+import { loadVenueRecord } from "./venues";
+
+// Past nights can be corrected for this long
+const CORRECTION_WINDOW_DAYS = 7;
+const MAX_COUNT_PER_NIGHT = 200;
+const MAX_LOG_INCREMENT = 20;
+// A verified check-in this recent decides whose clock the night follows
+const ACTIVE_VENUE_HOURS = 12;
+
+const countsSchema = (max: number) => z.object(
+  Object.fromEntries(
+    NIGHT_STAT_FIELDS.map(field => [field, z.number().int().min(0).max(max).optional()])
+  ) as Record<NightStatField, z.ZodOptional<z.ZodNumber>>
+);
+
+// Nights follow the time zone of the venue the user last checked in at, like
+// the app's own night boundaries. Without a recent verified check-in the
+// configured default applies.
+const resolveNightTimeZone = async (userId: string, now: Date): Promise<string | undefined> => {
+  const since = new Date(now.getTime() - ACTIVE_VENUE_HOURS * 60 * 60 * 1000);
+  const { data, error } = await supabase
+    .from('venue_interactions')
+    .select('venue_id')
+    .eq('user_id', userId)
+    .eq('interaction_type', 'check_in')
+    .eq('verified', true)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const venue = data ? await loadVenueRecord((data as { venue_id: string }).venue_id) : null;
+  return venue?.time_zone || getBusinessNightConfig().defaultTimeZone;
+};
+
+const nightsBetween = (fromKey: string, toKey: string) => {
+  return Math.round((Date.parse(`${toKey}T00:00:00Z`) - Date.parse(`${fromKey}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+};
+
+const ledgerKeyPrefix = (nightKey: string, field: NightStatField) => `daily_stats:${nightKey}:${field}:`;
+
+// XP already granted for one counter on one night, so reversals never take
+// back more than was awarded
+const getAwardedXPForField = async (userId: string, nightKey: string, field: NightStatField) => {
+  const { data, error } = await supabase
+    .from('xp_ledger')
+    .select('xp_awarded')
+    .eq('user_id', userId)
+    .like('idempotency_key', `${ledgerKeyPrefix(nightKey, field)}%`);
+
+  if (error) throw error;
+  return (data || []).reduce((sum, row: any) => sum + (row.xp_awarded || 0), 0);
+};
+
+// The user's guardrail settings and their latest drunk-scale rating for a night
+const loadGuardrailInputs = async (userId: string, nightKey: string) => {
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('drunk_scale_ratings, guardrail_settings')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+
+  const nightRatings = ((profile as any)?.drunk_scale_ratings || [])
+    .filter((r: any) => r && typeof r === 'object' && r.night_key === nightKey);
+  const latestRating = nightRatings.length > 0 ? nightRatings[nightRatings.length - 1].rating : null;
+
+  const settings: Partial<GuardrailSettings> = (profile as any)?.guardrail_settings || {};
+  return { rating: latestRating as number | null, settings };
+};
+
+// How many of each counter's new units earn XP. Units are added one at a time
+// on top of the night's earlier counts and stop earning as soon as the
+// guardrail pauses drinking XP, so one large log can't carry XP past it.
+const getXPEarningUnits = (
+  previous: Record<NightStatField, number>,
+  changes: NightStatCounts,
+  rating: number | null,
+  settings: Partial<GuardrailSettings>
+): NightStatCounts => {
+  const running: NightStatCounts = { ...previous };
+  const earning: NightStatCounts = {};
+
+  NIGHT_STAT_FIELDS.forEach(field => {
+    const delta = changes[field] || 0;
+    if (delta <= 0) return;
+
+    if (!isDrinkingXPType(NIGHT_STAT_XP_TYPES[field])) {
+      earning[field] = delta;
+    } else {
+      let earned = 0;
+      while (earned < delta && !evaluateGuardrails(running, rating, settings).pauseDrinkingXP) {
+        running[field] = (running[field] || 0) + 1;
+        earned++;
+      }
+      earning[field] = earned;
+    }
+
+    // Units past the pause still count towards it for the fields after this one
+    running[field] = previous[field] + delta;
+  });
+
+  return earning;
+};
+
+type NightStatsMode = 'increment' | 'set';
+
+// What the apply_night_stats function returns. previous and changes are the
+// ones stored with the idempotency key, so a retry sees the original request.
+interface AppliedNightStats {
+  duplicate: boolean;
+  previous: Record<string, unknown> | null;
+  changes: NightStatCounts | null;
+  stats: Record<string, unknown> | null;
+}
+
+const toCounts = (row: Record<string, unknown> | null): Record<NightStatField, number> => {
+  return Object.fromEntries(
+    NIGHT_STAT_FIELDS.map(field => [field, Number(row?.[field]) || 0])
+  ) as Record<NightStatField, number>;
+};
+
+// Applies counts to one night and moves XP by the difference. The counts are
+// written by a single database function that locks the night's row and records
+// the request under its idempotency key, so concurrent requests can't lose
+// each other's changes and a retried request changes nothing. XP entries are
+// keyed by the same idempotency key, so a retry after a failure part-way
+// through completes the XP without granting it twice.
+const applyNightStats = async (
+  userId: string,
+  nightKey: string,
+  idempotencyKey: string,
+  mode: NightStatsMode,
+  counts: NightStatCounts
+) => {
+  const { data, error } = await supabase.rpc('apply_night_stats', {
+    p_user_id: userId,
+    p_date: nightKey,
+    p_idempotency_key: idempotencyKey,
+    p_mode: mode,
+    p_counts: counts,
+    p_max_count: MAX_COUNT_PER_NIGHT,
+  });
+
+  if (error) throw error;
+
+  const applied = data as AppliedNightStats;
+  const previous = toCounts(applied.previous);
+  const stats = toCounts(applied.stats);
+  const changes = applied.changes || {};
+
+  let xpDelta = 0;
+  // Only what this request appended, not entries replayed from a retry
+  let addedXP = 0;
+  const guardrail = await loadGuardrailInputs(userId, nightKey);
+  const earningUnits = getXPEarningUnits(previous, changes, guardrail.rating, guardrail.settings);
+  // A correction downwards only takes back units that earned XP: the ones the
+  // old counts earned from an empty night minus the ones the new counts do
+  const zeroCounts = toCounts(null);
+  const previousEarning = getXPEarningUnits(zeroCounts, previous, guardrail.rating, guardrail.settings);
+  const currentEarning = getXPEarningUnits(zeroCounts, stats, guardrail.rating, guardrail.settings);
+
+  for (const field of NIGHT_STAT_FIELDS) {
+    const delta = changes[field] || 0;
+    if (delta === 0) continue;
+
+    const activityType = NIGHT_STAT_XP_TYPES[field];
+    // Counts are still recorded past the guardrail thresholds, they just stop earning XP
+    let xpAwarded = delta > 0
+      ? XP_VALUES[activityType] * (earningUnits[field] || 0)
+      : -XP_VALUES[activityType] * Math.max(0, (previousEarning[field] || 0) - (currentEarning[field] || 0));
+
+    if (xpAwarded < 0) {
+      const alreadyAwarded = await getAwardedXPForField(userId, nightKey, field);
+      xpAwarded = -Math.min(-xpAwarded, alreadyAwarded);
+    }
+
+    if (xpAwarded === 0) continue;
+
+    const entry = await appendXPLedgerEntry({
+      userId,
+      activityType,
+      xpAwarded,
+      idempotencyKey: `${ledgerKeyPrefix(nightKey, field)}${idempotencyKey}`,
+      description: `${delta > 0 ? 'Logged' : 'Corrected'} ${Math.abs(delta)} ${field.replace(/_/g, ' ')}`,
+    });
+
+    xpDelta += entry.xpAwarded;
+    if (!entry.duplicate) addedXP += entry.xpAwarded;
+  }
+
+  // Lifetime totals on profiles follow daily_stats through a database trigger
+  return { duplicate: applied.duplicate, stats, xpDelta, addedXP };
+};
+
+export const logNightStatsProcedure = protectedProcedure
+  .input(z.object({
+    counts: countsSchema(MAX_LOG_INCREMENT),
+    idempotencyKey: z.string().min(8).max(128),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const userId = ctx.user.id;
+
+    try {
+      // Logging goes to the night the server receives it in
+      const now = new Date();
+      const nightKey = getBusinessNightKey(now, await resolveNightTimeZone(userId, now));
+
+      const result = await applyNightStats(userId, nightKey, input.idempotencyKey, 'increment', input.counts);
+
+      const totalXP = await syncXPTotal(userId, result.addedXP);
+
+      return {
+        success: true,
+        duplicate: result.duplicate,
+        nightKey,
+        stats: result.stats,
+        xpDelta: result.xpDelta,
+        totalXP,
+        message: 'Night stats logged successfully'
+      };
+    } catch (error) {
+      console.error('Error logging night stats:', error);
+      return {
+        success: false,
+        code: 'INTERNAL',
+        error: 'Internal server error',
+        message: 'Failed to log night stats'
+      };
+    }
+  });
+
+export const correctNightStatsProcedure = protectedProcedure
+  .input(z.object({
+    nightKey: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    counts: countsSchema(MAX_COUNT_PER_NIGHT),
+    idempotencyKey: z.string().min(8).max(128),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const userId = ctx.user.id;
+
+    try {
+      const now = new Date();
+      const tonightKey = getBusinessNightKey(now, await resolveNightTimeZone(userId, now));
+      const nightKey = input.nightKey || tonightKey;
+      const nightsAgo = nightsBetween(nightKey, tonightKey);
+
+      if (nightsAgo < 0 || nightsAgo > CORRECTION_WINDOW_DAYS) {
+        return {
+          success: false,
+          code: 'NIGHT_OUT_OF_RANGE',
+          error: `Only the last ${CORRECTION_WINDOW_DAYS} nights can be corrected`,
+          message: 'Failed to correct night stats'
+        };
+      }
+
+      const result = await applyNightStats(userId, nightKey, input.idempotencyKey, 'set', input.counts);
+      const totalXP = await syncXPTotal(userId, result.addedXP);
+
+      return {
+        success: true,
+        duplicate: result.duplicate,
+        nightKey,
+        stats: result.stats,
+        xpDelta: result.xpDelta,
+        totalXP,
+        message: 'Night stats corrected successfully'
+      };
+    } catch (error) {
+      console.error('Error correcting night stats:', error);
+      return {
+        success: false,
+        code: 'INTERNAL',
+        error: 'Internal server error',
+        message: 'Failed to correct night stats'
+      };
+    }
+  });
@@ -0,0 +1,904 @@
+-- Server-side functions, tables and policies the app relies on.
+-- Apply with the Supabase SQL editor or as a migration; every statement is
+-- safe to re-run.
+
+-- ---------------------------------------------------------------------------
+-- Popular times
+-- ---------------------------------------------------------------------------
+
+-- Crowd-sourced visits and likes per venue and time slot, grouped here so
+-- the app never downloads raw interaction rows. Unverified check-ins are kept
+-- for history but never count, and the caller's own rows are excluded since
+-- the app already has them locally.
+create or replace function venue_popular_times(p_since timestamptz)
+returns table (venue_id text, time_slot text, visits bigint, likes bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    vi.venue_id,
+    vi.time_slot,
+    count(*) filter (where vi.interaction_type = 'check_in') as visits,
+    count(*) filter (where vi.interaction_type = 'like') as likes
+  from venue_interactions vi
+  where vi.created_at >= p_since
+    and vi.time_slot is not null
+    and (vi.interaction_type = 'like' or vi.verified)
+    and vi.user_id is distinct from auth.uid()
+  group by vi.venue_id, vi.time_slot;
+$$;
+
+create index if not exists venue_interactions_created_at_idx
+  on venue_interactions (created_at);
+
+-- ---------------------------------------------------------------------------
+-- Offline profile mutations
+-- ---------------------------------------------------------------------------
+
+-- Mutation ids already applied, so a replay after a lost response is a no-op
+create table if not exists profile_mutations_applied (
+  profile_id uuid not null references profiles (id) on delete cascade,
+  mutation_id text not null,
+  applied_at timestamptz not null default now(),
+  primary key (profile_id, mutation_id)
+);
+
+alter table profile_mutations_applied enable row level security;
+
+-- Adds queued counter deltas to the caller's profile in a single statement.
+-- Returns false when this mutation id was already applied. Only photos are
+-- counted from here, at most MAX_PHOTOS_PER_MUTATION at a time; every other
+-- counter is derived from verified records (see Profile counters below) and
+-- whatever the app sends for it is ignored.
+create or replace function apply_profile_mutation(p_mutation_id text, p_increment jsonb)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c_max_photos_per_mutation constant integer := 10;
+  v_photos integer := coalesce((p_increment ->> 'photos_taken')::integer, 0);
+begin
+  if v_photos < 0 or v_photos > c_max_photos_per_mutation then
+    raise exception 'photos_taken delta % is out of range', v_photos using errcode = '22003';
+  end if;
+
+  insert into profile_mutations_applied (profile_id, mutation_id)
+  values (auth.uid(), p_mutation_id)
+  on conflict do nothing;
+
+  if not found then
+    return false;
+  end if;
+
+  update profiles set
+    photos_taken = coalesce(photos_taken, 0) + v_photos,
+    updated_at = now()
+  where id = auth.uid();
+
+  return true;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Profile columns the app may write
+-- ---------------------------------------------------------------------------
+
+-- XP, counters and identity fields are written only by the server. The app
+-- keeps update access to its own settings and collections; usernames change
+-- through the updateUsername procedure, which validates them. New profiles
+-- are created only by the createProfile procedure.
+revoke insert, update on profiles from anon, authenticated;
+grant update (
+  profile_picture,
+  profile_picture_thumbnail,
+  privacy_settings,
+  feed_settings,
+  guardrail_settings,
+  drunk_scale_ratings,
+  last_drunk_scale_date,
+  last_night_out_date,
+  xp_activities,
+  visited_bars,
+  unlocked_achievements,
+  updated_at
+) on profiles to authenticated;
+
+-- Usernames are unique regardless of case. The procedures check first for a
+-- friendly error; this settles races between two of them. Existing names that
+-- differ only in case have to be renamed before it can be created.
+create unique index if not exists profiles_username_lower_idx
+  on profiles (lower(username));
+
+-- ---------------------------------------------------------------------------
+-- Profile reads
+-- ---------------------------------------------------------------------------
+
+-- The app reads and updates only its own profile row. Other users' profiles
+-- reach it through the server procedures (profile cards, search, friend
+-- suggestions), which apply privacy settings and blocks. Any older policy
+-- that let the app read other rows is dropped.
+alter table profiles enable row level security;
+
+revoke select on profiles from anon;
+
+do $$
+declare
+  p record;
+begin
+  for p in
+    select policyname from pg_policies
+    where schemaname = 'public'
+      and tablename = 'profiles'
+      and cmd in ('SELECT', 'ALL')
+      and policyname not in ('profiles_read_own', 'profiles_update_own')
+  loop
+    execute format('drop policy %I on profiles', p.policyname);
+  end loop;
+end;
+$$;
+
+drop policy if exists profiles_read_own on profiles;
+create policy profiles_read_own on profiles
+  for select to authenticated using (id = auth.uid());
+
+drop policy if exists profiles_update_own on profiles;
+create policy profiles_update_own on profiles
+  for update to authenticated using (id = auth.uid()) with check (id = auth.uid());
+
+-- ---------------------------------------------------------------------------
+-- Profile audit log
+-- ---------------------------------------------------------------------------
+
+-- Profile creation and username changes, written by the profile procedures.
+-- Users can read their own history but never write it.
+create table if not exists profile_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles (id) on delete cascade,
+  actor_id uuid not null,
+  action text not null,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists profile_audit_log_user_idx
+  on profile_audit_log (user_id, created_at);
+
+alter table profile_audit_log enable row level security;
+
+revoke insert, update, delete on profile_audit_log from anon, authenticated;
+
+drop policy if exists profile_audit_log_read_own on profile_audit_log;
+create policy profile_audit_log_read_own on profile_audit_log
+  for select to authenticated using (user_id = auth.uid());
+
+-- ---------------------------------------------------------------------------
+-- XP ledger
+-- ---------------------------------------------------------------------------
+
+-- Every XP grant, written only by the server. profiles.xp is the sum of a
+-- user's entries.
+create table if not exists xp_ledger (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles (id) on delete cascade,
+  activity_type text not null,
+  xp_awarded integer not null,
+  idempotency_key text not null,
+  description text,
+  venue_id text,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists xp_ledger_idempotency_idx
+  on xp_ledger (user_id, idempotency_key);
+create index if not exists xp_ledger_user_created_idx
+  on xp_ledger (user_id, created_at);
+
+alter table xp_ledger enable row level security;
+
+drop policy if exists xp_ledger_read_own on xp_ledger;
+create policy xp_ledger_read_own on xp_ledger
+  for select to authenticated using (user_id = auth.uid());
+
+-- XP earned before the ledger existed, carried over once for users without
+-- any entries. The server never reads profiles.xp after this: new users start
+-- at 0, and with the grant above the app can no longer write it, so
+-- re-running this finds nothing new to carry over.
+insert into xp_ledger (user_id, activity_type, xp_awarded, idempotency_key, description)
+select p.id, 'opening_balance', coalesce(p.xp, 0), 'opening_balance:' || p.id, 'XP earned before ledger'
+from profiles p
+where coalesce(p.xp, 0) > 0
+  and not exists (select 1 from xp_ledger l where l.user_id = p.id)
+on conflict (user_id, idempotency_key) do nothing;
+
+-- Stores the ledger total on the profile and returns it. The profile row is
+-- locked first, so concurrent awards queue up and the last one to finish
+-- sums every committed entry.
+create or replace function sync_xp_total(p_user_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_total integer;
+begin
+  perform 1 from profiles where id = p_user_id for update;
+
+  select coalesce(sum(xp_awarded), 0)::integer into v_total
+  from xp_ledger
+  where user_id = p_user_id;
+
+  update profiles set xp = v_total, updated_at = now() where id = p_user_id;
+
+  return v_total;
+end;
+$$;
+
+revoke execute on function sync_xp_total(uuid) from public, anon, authenticated;
+
+-- One row per level a user reaches, for the friend activity feed. Written only
+-- by the server; the unique index keeps a level from being announced twice.
+create table if not exists rank_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles (id) on delete cascade,
+  level integer not null,
+  title text not null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists rank_history_user_level_idx
+  on rank_history (user_id, level);
+create index if not exists rank_history_user_created_idx
+  on rank_history (user_id, created_at);
+
+alter table rank_history enable row level security;
+
+drop policy if exists rank_history_read_own on rank_history;
+create policy rank_history_read_own on rank_history
+  for select to authenticated using (user_id = auth.uid());
+
+-- ---------------------------------------------------------------------------
+-- Venues and verified check-ins
+-- ---------------------------------------------------------------------------
+
+create table if not exists venues (
+  id text primary key,
+  name text not null,
+  latitude double precision not null,
+  longitude double precision not null,
+  geofence_radius_meters integer,
+  time_zone text
+);
+
+alter table venues enable row level security;
+
+drop policy if exists venues_read on venues;
+create policy venues_read on venues for select to authenticated using (true);
+
+alter table venue_interactions add column if not exists night_key date;
+alter table venue_interactions add column if not exists verification_failure text;
+alter table venue_interactions add column if not exists distance_meters integer;
+alter table venue_interactions add column if not exists client_event_id text;
+
+create unique index if not exists venue_interactions_client_event_idx
+  on venue_interactions (user_id, client_event_id);
+
+-- One like per venue per business night. Older duplicates from before the
+-- index keep only their first like.
+delete from venue_interactions vi
+using venue_interactions earlier
+where vi.interaction_type = 'like'
+  and earlier.interaction_type = 'like'
+  and earlier.user_id = vi.user_id
+  and earlier.venue_id = vi.venue_id
+  and earlier.night_key = vi.night_key
+  and (earlier.created_at, earlier.id) < (vi.created_at, vi.id);
+
+create unique index if not exists venue_interactions_like_night_idx
+  on venue_interactions (user_id, venue_id, night_key)
+  where interaction_type = 'like';
+
+-- Rows are written only by the recordVenueInteraction procedure, which
+-- verifies the location, so the app can read its own rows but not insert.
+alter table venue_interactions enable row level security;
+
+drop policy if exists venue_interactions_insert_own on venue_interactions;
+drop policy if exists venue_interactions_read_own on venue_interactions;
+create policy venue_interactions_read_own on venue_interactions
+  for select to authenticated using (user_id = auth.uid());
+
+-- ---------------------------------------------------------------------------
+-- Blocks
+-- ---------------------------------------------------------------------------
+
+-- A block in either direction stops friend requests and friendships between
+-- the two users, whatever the app checks first
+create or replace function users_are_blocked(p_user_a uuid, p_user_b uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from blocked_users
+    where (blocker_id = p_user_a and blocked_id = p_user_b)
+       or (blocker_id = p_user_b and blocked_id = p_user_a)
+  );
+$$;
+
+create or replace function reject_blocked_friend_request()
+returns trigger
+language plpgsql
+as $$
+begin
+  if users_are_blocked(new.from_user_id, new.to_user_id) then
+    raise exception 'Friend requests are not allowed between blocked users' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function reject_blocked_friendship()
+returns trigger
+language plpgsql
+as $$
+begin
+  if users_are_blocked(new.user_id, new.friend_id) then
+    raise exception 'Friendships are not allowed between blocked users' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists friend_requests_reject_blocked on friend_requests;
+create trigger friend_requests_reject_blocked
+  before insert on friend_requests
+  for each row execute function reject_blocked_friend_request();
+
+drop trigger if exists friends_reject_blocked on friends;
+create trigger friends_reject_blocked
+  before insert on friends
+  for each row execute function reject_blocked_friendship();
+
+-- Declining a request or ending a friendship deletes the request row, so the
+-- pair can send a new one later. Either side may delete it.
+drop policy if exists friend_requests_delete_party on friend_requests;
+create policy friend_requests_delete_party on friend_requests
+  for delete to authenticated using (auth.uid() in (from_user_id, to_user_id));
+
+-- ---------------------------------------------------------------------------
+-- Night stats
+-- ---------------------------------------------------------------------------
+
+-- Every log or correction applied to a night, under the idempotency key it
+-- came with. Written only by apply_night_stats.
+create table if not exists daily_stats_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles (id) on delete cascade,
+  date date not null,
+  idempotency_key text not null,
+  changes jsonb not null default '{}'::jsonb,
+  previous jsonb,
+  created_at timestamptz not null default now()
+);
+
+alter table daily_stats_log add column if not exists previous jsonb;
+
+alter table daily_stats_log enable row level security;
+
+drop policy if exists daily_stats_log_read_own on daily_stats_log;
+create policy daily_stats_log_read_own on daily_stats_log
+  for select to authenticated using (user_id = auth.uid());
+
+create unique index if not exists daily_stats_log_idempotency_idx
+  on daily_stats_log (user_id, idempotency_key);
+
+-- Applies one logged or corrected set of counts to a night in a single
+-- transaction. The night's row is locked first, so concurrent requests queue
+-- up instead of overwriting each other, and a request whose idempotency key
+-- was already applied gets the original changes back. p_mode is 'increment'
+-- to add the counts or 'set' to replace them. Called only by the server.
+create or replace function apply_night_stats(
+  p_user_id uuid,
+  p_date date,
+  p_idempotency_key text,
+  p_mode text,
+  p_counts jsonb,
+  p_max_count integer
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_fields text[] := array[
+    'beers', 'shots', 'scoop_and_scores', 'beer_towers',
+    'funnels', 'shotguns', 'pool_games_won', 'dart_games_won'
+  ];
+  v_field text;
+  v_row jsonb;
+  v_log daily_stats_log%rowtype;
+  v_current integer;
+  v_next_value integer;
+  v_previous jsonb := '{}';
+  v_changes jsonb := '{}';
+  v_next jsonb := '{}';
+begin
+  insert into daily_stats (user_id, date)
+  values (p_user_id, p_date)
+  on conflict (user_id, date) do nothing;
+
+  select to_jsonb(d) into v_row
+  from daily_stats d
+  where d.user_id = p_user_id and d.date = p_date
+  for update;
+
+  select * into v_log
+  from daily_stats_log
+  where user_id = p_user_id and idempotency_key = p_idempotency_key;
+
+  if found then
+    return jsonb_build_object(
+      'duplicate', true,
+      'previous', coalesce(v_log.previous, '{}'),
+      'changes', coalesce(v_log.changes, '{}'),
+      'stats', v_row
+    );
+  end if;
+
+  foreach v_field in array v_fields loop
+    v_current := coalesce((v_row ->> v_field)::integer, 0);
+    v_next_value := v_current;
+
+    if p_counts ? v_field then
+      v_next_value := (p_counts ->> v_field)::integer;
+      if p_mode = 'increment' then
+        v_next_value := v_current + v_next_value;
+      end if;
+      v_next_value := greatest(0, least(p_max_count, v_next_value));
+    end if;
+
+    v_previous := v_previous || jsonb_build_object(v_field, v_current);
+    v_next := v_next || jsonb_build_object(v_field, v_next_value);
+    if v_next_value <> v_current then
+      v_changes := v_changes || jsonb_build_object(v_field, v_next_value - v_current);
+    end if;
+  end loop;
+
+  insert into daily_stats_log (user_id, date, idempotency_key, changes, previous, created_at)
+  values (p_user_id, p_date, p_idempotency_key, v_changes, v_previous, now());
+
+  if v_changes <> '{}' then
+    update daily_stats set
+      beers = (v_next ->> 'beers')::integer,
+      shots = (v_next ->> 'shots')::integer,
+      scoop_and_scores = (v_next ->> 'scoop_and_scores')::integer,
+      beer_towers = (v_next ->> 'beer_towers')::integer,
+      funnels = (v_next ->> 'funnels')::integer,
+      shotguns = (v_next ->> 'shotguns')::integer,
+      pool_games_won = (v_next ->> 'pool_games_won')::integer,
+      dart_games_won = (v_next ->> 'dart_games_won')::integer,
+      updated_at = now()
+    where user_id = p_user_id and date = p_date;
+  end if;
+
+  return jsonb_build_object(
+    'duplicate', false,
+    'previous', v_previous,
+    'changes', v_changes,
+    'stats', v_next
+  );
+end;
+$$;
+
+revoke execute on function apply_night_stats(uuid, date, text, text, jsonb, integer) from public, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Profile counters
+-- ---------------------------------------------------------------------------
+
+-- Lifetime counters on profiles, derived from records the app can't write
+-- directly: drinks and games from daily_stats, bars from verified check-ins,
+-- and nights out from either (a night with logged stats or a verified
+-- check-in). The triggers below keep them current.
+create or replace function refresh_profile_counters(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update profiles p set
+    bars_hit = (
+      select count(distinct vi.venue_id)
+      from venue_interactions vi
+      where vi.user_id = p_user_id and vi.interaction_type = 'check_in' and vi.verified
+    ),
+    nights_out = (
+      select count(*) from (
+        select ds.date as night from daily_stats ds where ds.user_id = p_user_id
+        union
+        select vi.night_key from venue_interactions vi
+        where vi.user_id = p_user_id
+          and vi.interaction_type = 'check_in'
+          and vi.verified
+          and vi.night_key is not null
+      ) nights
+    ),
+    total_beers = totals.beers,
+    total_shots = totals.shots,
+    total_scoop_and_scores = totals.scoop_and_scores,
+    total_beer_towers = totals.beer_towers,
+    total_funnels = totals.funnels,
+    total_shotguns = totals.shotguns,
+    pool_games_won = totals.pool_games_won,
+    dart_games_won = totals.dart_games_won,
+    updated_at = now()
+  from (
+    select
+      coalesce(sum(ds.beers), 0) as beers,
+      coalesce(sum(ds.shots), 0) as shots,
+      coalesce(sum(ds.scoop_and_scores), 0) as scoop_and_scores,
+      coalesce(sum(ds.beer_towers), 0) as beer_towers,
+      coalesce(sum(ds.funnels), 0) as funnels,
+      coalesce(sum(ds.shotguns), 0) as shotguns,
+      coalesce(sum(ds.pool_games_won), 0) as pool_games_won,
+      coalesce(sum(ds.dart_games_won), 0) as dart_games_won
+    from daily_stats ds
+    where ds.user_id = p_user_id
+  ) totals
+  where p.id = p_user_id;
+end;
+$$;
+
+revoke execute on function refresh_profile_counters(uuid) from public, anon, authenticated;
+
+create or replace function refresh_profile_counters_from_row()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    perform refresh_profile_counters(old.user_id);
+  else
+    perform refresh_profile_counters(new.user_id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists daily_stats_refresh_profile_counters on daily_stats;
+create trigger daily_stats_refresh_profile_counters
+  after insert or update or delete on daily_stats
+  for each row execute function refresh_profile_counters_from_row();
+
+drop trigger if exists venue_interactions_refresh_profile_counters on venue_interactions;
+create trigger venue_interactions_refresh_profile_counters
+  after insert or update on venue_interactions
+  for each row
+  when (new.interaction_type = 'check_in')
+  execute function refresh_profile_counters_from_row();
+
+-- Brings counters written by older app versions in line with the records
+select refresh_profile_counters(id) from profiles;
+
+-- ---------------------------------------------------------------------------
+-- User search
+-- ---------------------------------------------------------------------------
+
+create extension if not exists pg_trgm;
+
+create index if not exists profiles_username_trgm_idx
+  on profiles using gin (lower(username) gin_trgm_ops);
+
+-- Usernames matching a search, best first: exact, prefix, substring, then by
+-- trigram similarity to the whole name or to any part of it. Trigrams don't
+-- care where a typo is, so a wrong first letter still matches. The caller
+-- does the final ranking.
+create or replace function search_username_candidates(p_query text, p_exclude uuid, p_limit integer)
+returns table (id uuid, username text)
+language sql
+stable
+security definer
+set search_path = public
+set pg_trgm.similarity_threshold = 0.2
+set pg_trgm.word_similarity_threshold = 0.4
+as $$
+  select p.id, p.username
+  from profiles p
+  where p.id <> p_exclude
+    and p.username is not null
+    and (
+      strpos(lower(p.username), lower(p_query)) > 0
+      or lower(p.username) % lower(p_query)
+      or lower(p_query) <% lower(p.username)
+    )
+  order by
+    lower(p.username) = lower(p_query) desc,
+    starts_with(lower(p.username), lower(p_query)) desc,
+    strpos(lower(p.username), lower(p_query)) > 0 desc,
+    greatest(
+      similarity(lower(p.username), lower(p_query)),
+      word_similarity(lower(p_query), lower(p.username))
+    ) desc,
+    p.username
+  limit p_limit;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Contact discovery
+-- ---------------------------------------------------------------------------
+
+create extension if not exists pgcrypto;
+
+alter table profiles add column if not exists phone_hash text;
+
+create index if not exists profiles_phone_hash_idx on profiles (phone_hash);
+
+-- SHA-256 of the profile's phone as E.164, hex encoded like the app's contact
+-- hashes. Only a phone that matches the one Supabase Auth has confirmed for
+-- the user gets a hash, so nobody can be found by a number they typed in.
+create or replace function verified_phone_hash(p_user_id uuid, p_phone text)
+returns text
+language sql
+stable
+security definer
+set search_path = public, auth
+as $$
+  select encode(digest('+' || regexp_replace(p_phone, '\D', '', 'g'), 'sha256'), 'hex')
+  from auth.users u
+  where u.id = p_user_id
+    and u.phone_confirmed_at is not null
+    and coalesce(p_phone, '') <> ''
+    and regexp_replace(u.phone, '\D', '', 'g') = regexp_replace(p_phone, '\D', '', 'g');
+$$;
+
+-- It would confirm anyone's number to whoever guessed it
+revoke execute on function verified_phone_hash(uuid, text) from public, anon, authenticated;
+
+-- Keeps phone_hash in step with phone however the profile is written, and
+-- stops it being set directly
+create or replace function set_profile_phone_hash()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.phone_hash := verified_phone_hash(new.id, new.phone);
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_set_phone_hash on profiles;
+create trigger profiles_set_phone_hash
+  before insert or update of phone, phone_hash on profiles
+  for each row execute function set_profile_phone_hash();
+
+-- Profiles created before the trigger existed
+update profiles p
+set phone_hash = verified_phone_hash(p.id, p.phone)
+where p.phone_hash is distinct from verified_phone_hash(p.id, p.phone);
+
+-- One row per discoverContacts request; the procedure caps requests per hour
+-- and hashes per day from it
+create table if not exists contact_discovery_log (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references profiles (id) on delete cascade,
+  hash_count integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists contact_discovery_log_user_idx
+  on contact_discovery_log (user_id, created_at);
+
+alter table contact_discovery_log enable row level security;
+
+-- ---------------------------------------------------------------------------
+-- Trending venues
+-- ---------------------------------------------------------------------------
+
+-- Time-decayed score per venue from everyone's verified check-ins and likes,
+-- now and p_lookback_hours ago, so the app can rank trending and rising
+-- venues without reading other users' rows. The weights, half-life and
+-- window come from trending.ts.
+create or replace function venue_trending_scores(
+  p_half_life_hours double precision,
+  p_window_hours double precision,
+  p_lookback_hours double precision,
+  p_check_in_weight double precision,
+  p_like_weight double precision
+)
+returns table (
+  venue_id text,
+  score double precision,
+  previous_score double precision,
+  check_ins bigint,
+  likes bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with events as (
+    select
+      vi.venue_id,
+      vi.interaction_type,
+      case when vi.interaction_type = 'like' then p_like_weight else p_check_in_weight end as weight,
+      extract(epoch from now() - vi.created_at) / 3600 as age_hours
+    from venue_interactions vi
+    where vi.created_at >= now() - make_interval(secs => (p_window_hours + p_lookback_hours) * 3600)
+      and vi.created_at <= now()
+      and (vi.interaction_type = 'like' or vi.verified)
+  )
+  select
+    e.venue_id,
+    coalesce(sum(e.weight * exp(-ln(2) * e.age_hours / p_half_life_hours))
+      filter (where e.age_hours <= p_window_hours), 0) as score,
+    coalesce(sum(e.weight * exp(-ln(2) * (e.age_hours - p_lookback_hours) / p_half_life_hours))
+      filter (where e.age_hours >= p_lookback_hours), 0) as previous_score,
+    count(*) filter (where e.interaction_type = 'check_in' and e.age_hours <= p_window_hours) as check_ins,
+    count(*) filter (where e.interaction_type = 'like' and e.age_hours <= p_window_hours) as likes
+  from events e
+  where p_half_life_hours > 0
+  group by e.venue_id;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Leaderboards
+-- ---------------------------------------------------------------------------
+
+-- Each user's value for a leaderboard metric over [p_from, p_to), one row per
+-- user with anything to count. Every window uses the same source per metric:
+-- the XP ledger, first verified check-ins per venue, nights with logged stats
+-- or a verified check-in, and drinks from daily_stats. A null p_from counts
+-- from the beginning (XP carried over from before the ledger included), a
+-- null p_to up to now. Called only by the server.
+create or replace function leaderboard_values(
+  p_user_ids uuid[],
+  p_metric text,
+  p_from timestamptz,
+  p_to timestamptz
+)
+returns table (user_id uuid, value bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select l.user_id, sum(l.xp_awarded)::bigint
+  from xp_ledger l
+  where p_metric = 'xp'
+    and l.user_id = any(p_user_ids)
+    and case
+      when l.activity_type = 'opening_balance' then p_from is null
+      else (p_from is null or l.created_at >= p_from) and (p_to is null or l.created_at < p_to)
+    end
+  group by l.user_id
+
+  union all
+
+  select first_visits.user_id, count(*)::bigint
+  from (
+    select vi.user_id, vi.venue_id, min(vi.created_at) as first_at
+    from venue_interactions vi
+    where p_metric = 'bars_hit'
+      and vi.user_id = any(p_user_ids)
+      and vi.interaction_type = 'check_in'
+      and vi.verified
+    group by vi.user_id, vi.venue_id
+  ) first_visits
+  where (p_from is null or first_visits.first_at >= p_from)
+    and (p_to is null or first_visits.first_at < p_to)
+  group by first_visits.user_id
+
+  union all
+
+  select nights.user_id, count(*)::bigint
+  from (
+    select ds.user_id, ds.date as night
+    from daily_stats ds
+    where p_metric = 'nights_out' and ds.user_id = any(p_user_ids)
+    union
+    select vi.user_id, vi.night_key
+    from venue_interactions vi
+    where p_metric = 'nights_out'
+      and vi.user_id = any(p_user_ids)
+      and vi.interaction_type = 'check_in'
+      and vi.verified
+      and vi.night_key is not null
+  ) nights
+  where (p_from is null or nights.night >= p_from::date)
+    and (p_to is null or nights.night < p_to::date)
+  group by nights.user_id
+
+  union all
+
+  select ds.user_id, sum(
+    coalesce(ds.beers, 0) + coalesce(ds.shots, 0) + coalesce(ds.scoop_and_scores, 0) +
+    coalesce(ds.beer_towers, 0) + coalesce(ds.funnels, 0) + coalesce(ds.shotguns, 0)
+  )::bigint
+  from daily_stats ds
+  where p_metric = 'drinks'
+    and ds.user_id = any(p_user_ids)
+    and (p_from is null or ds.date >= p_from::date)
+    and (p_to is null or ds.date < p_to::date)
+  group by ds.user_id;
+$$;
+
+revoke execute on function leaderboard_values(uuid[], text, timestamptz, timestamptz) from public, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Presence
+-- ---------------------------------------------------------------------------
+
+-- The bar a user is sharing with friends right now, one row per user. Written
+-- only by the sharePresence procedure, which checks for a verified check-in;
+-- friends see it through getFriendsOut.
+create table if not exists presence (
+  user_id uuid primary key references profiles (id) on delete cascade,
+  venue_id text not null references venues (id) on delete cascade,
+  audience text not null check (audience in ('all_friends', 'selected_friends')),
+  shared_with uuid[] not null default '{}',
+  started_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists presence_expires_at_idx
+  on presence (expires_at);
+
+alter table presence enable row level security;
+
+revoke insert, update, delete on presence from anon, authenticated;
+
+drop policy if exists presence_read_own on presence;
+create policy presence_read_own on presence
+  for select to authenticated using (user_id = auth.uid());
+
+-- ---------------------------------------------------------------------------
+-- Night sessions
+-- ---------------------------------------------------------------------------
+
+-- Each night out as the app recorded it, ids generated on the device. Only
+-- the owner can read or write their nights.
+create table if not exists night_sessions (
+  id text primary key,
+  user_id uuid not null references profiles (id) on delete cascade,
+  night_key date not null,
+  start_method text not null,
+  started_at timestamptz not null,
+  ended_at timestamptz,
+  venues jsonb not null default '[]'::jsonb,
+  drinks jsonb not null default '{}'::jsonb,
+  drunk_scale_ratings jsonb not null default '[]'::jsonb
+);
+
+create index if not exists night_sessions_user_night_idx
+  on night_sessions (user_id, night_key);
+
+alter table night_sessions enable row level security;
+
+drop policy if exists night_sessions_read_own on night_sessions;
+create policy night_sessions_read_own on night_sessions
+  for select to authenticated using (user_id = auth.uid());
+
+drop policy if exists night_sessions_insert_own on night_sessions;
+create policy night_sessions_insert_own on night_sessions
+  for insert to authenticated with check (user_id = auth.uid());
+
+drop policy if exists night_sessions_update_own on night_sessions;
+create policy night_sessions_update_own on night_sessions
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+drop policy if exists night_sessions_delete_own on night_sessions;
+create policy night_sessions_delete_own on night_sessions
+  for delete to authenticated using (user_id = auth.uid());
@@ -0,0 +1,110 @@
+import { protectedProcedure } from "./protectedProcedure";
+import { supabase } from "@/lib/supabase";
+import { getBlockedIds, getFriendIds, loadProfileCards } from "./profileCards";
+
+// Someone the user may know, with what they have in common
+export interface FriendSuggestion {
+  id: string;
+  username: string;
+  rank_title: string;
+  level: number;
+  mutual_friends: number;
+  shared_bars: number;
+}
+
+const MAX_FRIEND_SUGGESTIONS = 20;
+const SHARED_BAR_CANDIDATE_LIMIT = 50;
+
+// Everyone with a pending request to or from the user
+const getPendingRequestIds = async (userId: string): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('friend_requests')
+    .select('from_user_id, to_user_id')
+    .eq('status', 'pending')
+    .or(`from_user_id.eq.${userId},to_user_id.eq.${userId}`);
+
+  if (error) throw error;
+
+  return new Set((data || []).map((row: any) => (row.from_user_id === userId ? row.to_user_id : row.from_user_id)));
+};
+
+// Candidates come from profiles the app can't read directly; only their
+// cards, with privacy applied, leave the server
+export const getFriendSuggestionsProcedure = protectedProcedure
+  .query(async ({ ctx }) => {
+    const userId = ctx.user.id;
+
+    try {
+      const [friendIds, blockedIds, pendingIds, ownProfile] = await Promise.all([
+        getFriendIds(userId),
+        getBlockedIds(userId),
+        getPendingRequestIds(userId),
+        supabase.from('profiles').select('visited_bars').eq('id', userId).maybeSingle(),
+      ]);
+
+      if (ownProfile.error) throw ownProfile.error;
+
+      const visitedBars: string[] = (ownProfile.data as { visited_bars: string[] | null } | null)?.visited_bars || [];
+
+      const [friendsOfFriends, sharedBarUsers] = await Promise.all([
+        friendIds.size > 0
+          ? supabase.from('friends').select('user_id, friend_id').in('user_id', Array.from(friendIds))
+          : Promise.resolve({ data: [] as any[], error: null }),
+        visitedBars.length > 0
+          ? supabase
+              .from('profiles')
+              .select('id')
+              .overlaps('visited_bars', visitedBars)
+              .neq('id', userId)
+              .limit(SHARED_BAR_CANDIDATE_LIMIT)
+          : Promise.resolve({ data: [] as any[], error: null }),
+      ]);
+
+      if (friendsOfFriends.error) throw friendsOfFriends.error;
+      if (sharedBarUsers.error) throw sharedBarUsers.error;
+
+      // Skip ourselves, existing friends, blocks and anyone with a request in flight
+      const excludedIds = new Set<string>([userId, ...friendIds, ...blockedIds, ...pendingIds]);
+
+      const mutualCounts: Record<string, number> = {};
+      (friendsOfFriends.data || []).forEach((row: any) => {
+        if (!row?.friend_id || excludedIds.has(row.friend_id)) return;
+        mutualCounts[row.friend_id] = (mutualCounts[row.friend_id] || 0) + 1;
+      });
+
+      const candidateIds = Array.from(new Set([
+        ...Object.keys(mutualCounts),
+        ...(sharedBarUsers.data || []).map((row: any) => row.id).filter((id: string) => id && !excludedIds.has(id)),
+      ]));
+
+      const candidates = await loadProfileCards(userId, candidateIds);
+
+      // Shared bars only count where the candidate lets us see their bars
+      const suggestions: FriendSuggestion[] = candidates
+        .map(candidate => ({
+          id: candidate.id,
+          username: candidate.username,
+          rank_title: candidate.rank_title,
+          level: candidate.level,
+          mutual_friends: mutualCounts[candidate.id] || 0,
+          shared_bars: (candidate.visited_bars || []).filter(bar => visitedBars.includes(bar)).length,
+        }))
+        .filter(s => s.mutual_friends > 0 || s.shared_bars > 0)
+        .sort((a, b) => (b.mutual_friends - a.mutual_friends) || (b.shared_bars - a.shared_bars))
+        .slice(0, MAX_FRIEND_SUGGESTIONS);
+
+      return {
+        success: true,
+        suggestions,
+      };
+    } catch (error) {
+      console.error('Error loading friend suggestions:', error);
+      return {
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to load friend suggestions'
+      };
+    }
+  });
+
+export default getFriendSuggestionsProcedure;
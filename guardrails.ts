@@ -0,0 +1,91 @@
+import { XPActivityType } from './xpValues';
+import { NightStatCounts, NightStatField } from './nightStats';
+
+export type GuardrailLevel = 'ok' | 'slow_down' | 'get_home_safe';
+
+export interface GuardrailSettings {
+  enabled: boolean;
+  // Standard drinks logged tonight at which each prompt appears
+  slowDownDrinks: number;
+  getHomeSafeDrinks: number;
+  // Tonight's drunk-scale rating (1-5) at which each prompt appears
+  slowDownRating: number;
+  getHomeSafeRating: number;
+}
+
+export interface GuardrailStatus {
+  level: GuardrailLevel;
+  drinks: number;
+  rating: number | null;
+  // Drinking XP stops being awarded once any prompt is showing
+  pauseDrinkingXP: boolean;
+  prompt: string | null;
+}
+
+export const DEFAULT_GUARDRAIL_SETTINGS: GuardrailSettings = {
+  enabled: true,
+  slowDownDrinks: 6,
+  getHomeSafeDrinks: 10,
+  slowDownRating: 4,
+  getHomeSafeRating: 5,
+};
+
+// Rough standard-drink equivalents per logged item. Games aren't drinks.
+const DRINK_UNITS: Partial<Record<NightStatField, number>> = {
+  beers: 1,
+  shots: 1,
+  scoop_and_scores: 1,
+  beer_towers: 4,
+  funnels: 1,
+  shotguns: 1,
+};
+
+export const DRINKING_XP_TYPES: XPActivityType[] = [
+  'beers',
+  'shots',
+  'scoop_and_scores',
+  'beer_towers',
+  'funnels',
+  'shotguns',
+  'featured_drink',
+];
+
+const PROMPTS: Record<Exclude<GuardrailLevel, 'ok'>, string> = {
+  slow_down: "You've had a few tonight. Grab some water and slow down for a bit.",
+  get_home_safe: "Time to call it a night. Get a ride with a friend or a rideshare and get home safe.",
+};
+
+export const isDrinkingXPType = (type: XPActivityType) => DRINKING_XP_TYPES.includes(type);
+
+export const countStandardDrinks = (counts: NightStatCounts): number => {
+  return (Object.keys(DRINK_UNITS) as NightStatField[])
+    .reduce((sum, field) => sum + (counts[field] || 0) * (DRINK_UNITS[field] || 0), 0);
+};
+
+export const evaluateGuardrails = (
+  counts: NightStatCounts,
+  rating: number | null,
+  settings: Partial<GuardrailSettings> = {}
+): GuardrailStatus => {
+  const resolved = { ...DEFAULT_GUARDRAIL_SETTINGS, ...settings };
+  const drinks = countStandardDrinks(counts);
+
+  if (!resolved.enabled) {
+    return { level: 'ok', drinks, rating, pauseDrinkingXP: false, prompt: null };
+  }
+
+  let level: GuardrailLevel = 'ok';
+  if (drinks >= resolved.getHomeSafeDrinks || (rating != null && rating >= resolved.getHomeSafeRating)) {
+    level = 'get_home_safe';
+  } else if (drinks >= resolved.slowDownDrinks || (rating != null && rating >= resolved.slowDownRating)) {
+    level = 'slow_down';
+  }
+
+  return {
+    level,
+    drinks,
+    rating,
+    pauseDrinkingXP: level !== 'ok',
+    prompt: level === 'ok' ? null : PROMPTS[level],
+  };
+};
@@ -0,0 +1,168 @@
+import { z } from "zod";
+import { protectedProcedure } from "./protectedProcedure";
+import { supabase } from "@/lib/supabase";
+import { canViewField, normalizePrivacySettings } from "./privacy";
+
+const LEADERBOARD_METRICS = ['xp', 'bars_hit', 'nights_out', 'drinks'] as const;
+const LEADERBOARD_WINDOWS = ['week', 'month', 'all_time'] as const;
+
+type LeaderboardMetric = typeof LEADERBOARD_METRICS[number];
+type LeaderboardWindow = typeof LEADERBOARD_WINDOWS[number];
+
+// One row of the leaderboard_values function
+interface LeaderboardValueRow {
+  user_id: string;
+  value: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfWeek = (date: Date): Date => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+  return new Date(start.getTime() - daysSinceMonday * DAY_MS);
+};
+
+const startOfMonth = (date: Date): Date => {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+};
+
+// currentStart is null for all time. Rank changes for all time are measured
+// against standings at the start of the current week.
+const getPeriodBounds = (window: LeaderboardWindow, now: Date) => {
+  switch (window) {
+    case 'week': {
+      const currentStart = startOfWeek(now);
+      return { currentStart, previousStart: new Date(currentStart.getTime() - 7 * DAY_MS) };
+    }
+    case 'month': {
+      const currentStart = startOfMonth(now);
+      return {
+        currentStart,
+        previousStart: new Date(Date.UTC(currentStart.getUTCFullYear(), currentStart.getUTCMonth() - 1, 1)),
+      };
+    }
+    default:
+      return { currentStart: null, previousStart: startOfWeek(now) };
+  }
+};
+
+// Each user's value for a metric over [from, to), aggregated in the database
+// from the same records whatever the window. A null from means since the
+// beginning, a null to means up to now.
+const loadMetricValues = async (
+  metric: LeaderboardMetric,
+  userIds: string[],
+  from: Date | null,
+  to: Date | null
+): Promise<Record<string, number>> => {
+  const { data, error } = await supabase.rpc('leaderboard_values', {
+    p_user_ids: userIds,
+    p_metric: metric,
+    p_from: from ? from.toISOString() : null,
+    p_to: to ? to.toISOString() : null,
+  });
+
+  if (error) throw error;
+
+  const values: Record<string, number> = {};
+  userIds.forEach(id => {
+    values[id] = 0;
+  });
+  ((data || []) as LeaderboardValueRow[]).forEach(row => {
+    values[row.user_id] = Number(row.value) || 0;
+  });
+  return values;
+};
+
+// Standard competition ranking: equal values share a rank
+const rankValues = (values: Record<string, number>): Record<string, number> => {
+  const sorted = Object.entries(values).sort((a, b) => b[1] - a[1]);
+  const ranks: Record<string, number> = {};
+  sorted.forEach(([userId, value], index) => {
+    const previous = sorted[index - 1];
+    ranks[userId] = previous && previous[1] === value ? ranks[previous[0]] : index + 1;
+  });
+  return ranks;
+};
+
+export const getLeaderboardProcedure = protectedProcedure
+  .input(z.object({
+    metric: z.enum(LEADERBOARD_METRICS),
+    window: z.enum(LEADERBOARD_WINDOWS),
+  }))
+  .query(async ({ ctx, input }) => {
+    const userId = ctx.user.id;
+
+    try {
+      const { data: friendships, error: friendsError } = await supabase
+        .from('friends')
+        .select('friend_id')
+        .eq('user_id', userId);
+
+      if (friendsError) throw friendsError;
+
+      const participantIds = Array.from(new Set([
+        userId,
+        ...(friendships || []).map((f: any) => f.friend_id).filter(Boolean),
+      ]));
+
+      const { data: allProfiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, username, privacy_settings')
+        .in('id', participantIds);
+
+      if (profilesError) throw profilesError;
+
+      // Friends who hide their stats from friends sit the leaderboard out
+      const profiles = (allProfiles || []).filter((profile: any) =>
+        profile.id === userId ||
+        canViewField(normalizePrivacySettings(profile.privacy_settings), 'stats', 'friend')
+      );
+      const visibleIds = profiles.map((profile: any) => profile.id);
+
+      const now = new Date();
+      const { currentStart, previousStart } = getPeriodBounds(input.window, now);
+
+      // All time is compared with the standings at the start of the week
+      const [currentValues, previousValues] = await Promise.all([
+        loadMetricValues(input.metric, visibleIds, currentStart, null),
+        currentStart
+          ? loadMetricValues(input.metric, visibleIds, previousStart, currentStart)
+          : loadMetricValues(input.metric, visibleIds, null, previousStart),
+      ]);
+
+      const currentRanks = rankValues(currentValues);
+      const previousRanks = rankValues(previousValues);
+
+      const entries = profiles
+        .map((profile: any) => ({
+          user_id: profile.id,
+          username: profile.username,
+          value: currentValues[profile.id] || 0,
+          rank: currentRanks[profile.id],
+          previous_rank: previousRanks[profile.id],
+          // Positive means the user climbed since the last period
+          rank_change: previousRanks[profile.id] - currentRanks[profile.id],
+          is_self: profile.id === userId,
+        }))
+        .sort((a, b) => (a.rank - b.rank) || a.username.localeCompare(b.username));
+
+      return {
+        success: true,
+        metric: input.metric,
+        window: input.window,
+        period_start: currentStart ? currentStart.toISOString() : null,
+        entries,
+      };
+    } catch (error) {
+      console.error('Error loading leaderboard:', error);
+      return {
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to load leaderboard'
+      };
+    }
+  });
+
+export default getLeaderboardProcedure;
@@ -0,0 +1,258 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { supabase } from '@/lib/supabase';
+import { appEvents } from './appEvents';
+import { getActiveTimeZone, getBusinessNightKey, getNextBusinessNightReset, getVenueTimeZone } from './businessNight';
+import { NIGHT_STAT_FIELDS, NightStatCounts } from './nightStats';
+
+type NightStartMethod = 'check_in' | 'manual';
+
+interface NightVenueVisit {
+  venueId: string;
+  arrivedAt: string;
+  timeSlot: string;
+}
+
+interface NightDrunkScaleRating {
+  rating: number;
+  timestamp: string;
+}
+
+// One night out, from the first check-in (or a manual start) until the
+// business night resets. Venues are kept in the order they were visited.
+interface NightSession {
+  id: string;
+  nightKey: string;
+  timeZone?: string;
+  startMethod: NightStartMethod;
+  status: 'active' | 'completed';
+  startedAt: string;
+  endedAt: string | null;
+  venues: NightVenueVisit[];
+  drinks: NightStatCounts;
+  drunkScaleRatings: NightDrunkScaleRating[];
+}
+
+interface NightSessionState {
+  activeSession: NightSession | null;
+  pastNights: NightSession[];
+  startNight: (method?: NightStartMethod, timeZone?: string) => NightSession;
+  endNight: () => void;
+  closeExpiredNight: () => void;
+  getPastNights: () => NightSession[];
+  getNight: (sessionId: string) => NightSession | null;
+}
+
+const MAX_PAST_NIGHTS = 100;
+
+let closeTimeout: ReturnType<typeof setTimeout> | null = null;
+
+const generateSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Fire closeExpiredNight right when the active night's reset hour arrives
+const scheduleAutoClose = (session: NightSession | null, close: () => void) => {
+  if (closeTimeout) clearTimeout(closeTimeout);
+  closeTimeout = null;
+  if (!session) return;
+
+  const resetAt = getNextBusinessNightReset(new Date(session.startedAt), session.timeZone);
+  const delay = Math.max(0, resetAt.getTime() - Date.now());
+  closeTimeout = setTimeout(() => {
+    closeTimeout = null;
+    close();
+  }, delay);
+};
+
+const syncNightToSupabase = async (session: NightSession) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('night_sessions')
+      .upsert({
+        id: session.id,
+        user_id: user.id,
+        night_key: session.nightKey,
+        start_method: session.startMethod,
+        started_at: session.startedAt,
+        ended_at: session.endedAt,
+        venues: session.venues,
+        drinks: session.drinks,
+        drunk_scale_ratings: session.drunkScaleRatings,
+      });
+
+    if (error) {
+      console.warn('Error syncing night session to Supabase:', error);
+    }
+  } catch (error) {
+    console.warn('Error syncing night session to Supabase:', error);
+  }
+};
+
+export const useNightSessionStore = create<NightSessionState>()(
+  persist(
+    (set, get) => ({
+      activeSession: null,
+      pastNights: [],
+
+      startNight: (method = 'manual', timeZone) => {
+        get().closeExpiredNight();
+
+        const existing = get().activeSession;
+        if (existing) return existing;
+
+        const now = new Date();
+        const zone = timeZone || getActiveTimeZone();
+        const session: NightSession = {
+          id: generateSessionId(),
+          nightKey: getBusinessNightKey(now, zone),
+          timeZone: zone,
+          startMethod: method,
+          status: 'active',
+          startedAt: now.toISOString(),
+          endedAt: null,
+          venues: [],
+          drinks: {},
+          drunkScaleRatings: [],
+        };
+
+        set({ activeSession: session });
+        scheduleAutoClose(session, get().closeExpiredNight);
+
+        console.log(`🌙 Night out started (${method}) for ${session.nightKey}`);
+        appEvents.emit('nightStarted', {
+          sessionId: session.id,
+          nightKey: session.nightKey,
+          startMethod: method,
+        });
+
+        return session;
+      },
+
+      endNight: () => {
+        const session = get().activeSession;
+        if (!session) return;
+
+        const completed: NightSession = {
+          ...session,
+          status: 'completed',
+          endedAt: session.endedAt || new Date().toISOString(),
+        };
+
+        set((state) => ({
+          activeSession: null,
+          pastNights: [completed, ...state.pastNights.filter(n => n.id !== completed.id)].slice(0, MAX_PAST_NIGHTS),
+        }));
+        scheduleAutoClose(null, get().closeExpiredNight);
+
+        console.log(`✅ Night out ${completed.nightKey} closed with ${completed.venues.length} venues`);
+        appEvents.emit('nightCompleted', {
+          sessionId: completed.id,
+          nightKey: completed.nightKey,
+          startedAt: completed.startedAt,
+          endedAt: completed.endedAt as string,
+          venueCount: completed.venues.length,
+        });
+
+        syncNightToSupabase(completed);
+      },
+
+      // Closes the active night once its business night is over. The end time
+      // is the reset hour, not whenever the app next happened to open.
+      closeExpiredNight: () => {
+        const session = get().activeSession;
+        if (!session) return;
+
+        const currentNightKey = getBusinessNightKey(new Date(), session.timeZone);
+        if (currentNightKey === session.nightKey) return;
+
+        set({
+          activeSession: {
+            ...session,
+            endedAt: getNextBusinessNightReset(new Date(session.startedAt), session.timeZone).toISOString(),
+          },
+        });
+        get().endNight();
+      },
+
+      getPastNights: () => {
+        get().closeExpiredNight();
+        return get().pastNights;
+      },
+
+      getNight: (sessionId) => {
+        const { activeSession, pastNights } = get();
+        if (activeSession?.id === sessionId) return activeSession;
+        return pastNights.find(n => n.id === sessionId) || null;
+      },
+    }),
+    {
+      name: 'night-session-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      onRehydrateStorage: () => (state) => {
+        if (!state) return;
+        state.closeExpiredNight();
+        scheduleAutoClose(useNightSessionStore.getState().activeSession, state.closeExpiredNight);
+      },
+    }
+  )
+);
+
+const updateActiveSession = (update: (session: NightSession) => NightSession) => {
+  useNightSessionStore.setState((state) => ({
+    activeSession: state.activeSession ? update(state.activeSession) : null,
+  }));
+};
+
+// The first verified check-in of the night starts the session
+appEvents.on('checkedIn', ({ venueId, timeSlot, timestamp }) => {
+  const { closeExpiredNight, startNight } = useNightSessionStore.getState();
+  closeExpiredNight();
+  // Read again: closing may just have ended the session we had
+  if (!useNightSessionStore.getState().activeSession) {
+    startNight('check_in', getVenueTimeZone(venueId));
+  }
+
+  updateActiveSession(session => {
+    const lastVenue = session.venues[session.venues.length - 1];
+    if (lastVenue?.venueId === venueId) return session;
+    return {
+      ...session,
+      venues: [...session.venues, { venueId, arrivedAt: timestamp, timeSlot }],
+    };
+  });
+});
+
+appEvents.on('drinksLogged', ({ counts, nightKey }) => {
+  const session = useNightSessionStore.getState().activeSession;
+  if (!session || session.nightKey !== nightKey) return;
+
+  updateActiveSession(current => {
+    const drinks = { ...current.drinks };
+    NIGHT_STAT_FIELDS.forEach(field => {
+      if (counts[field]) {
+        drinks[field] = (drinks[field] || 0) + (counts[field] || 0);
+      }
+    });
+    return { ...current, drinks };
+  });
+});
+
+appEvents.on('drunkScaleSubmitted', ({ rating, timestamp }) => {
+  useNightSessionStore.getState().closeExpiredNight();
+  if (!useNightSessionStore.getState().activeSession) return;
+
+  updateActiveSession(session => ({
+    ...session,
+    drunkScaleRatings: [...session.drunkScaleRatings, { rating, timestamp }],
+  }));
+});
+
+AppState.addEventListener('change', (nextState) => {
+  if (nextState === 'active') {
+    useNightSessionStore.getState().closeExpiredNight();
+  }
+});
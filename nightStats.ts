@@ -0,0 +1,29 @@
+import { XPActivityType } from './xpValues';
+
+// Per-night counters stored on a daily_stats row, keyed to the business night
+export const NIGHT_STAT_FIELDS = [
+  'beers',
+  'shots',
+  'scoop_and_scores',
+  'beer_towers',
+  'funnels',
+  'shotguns',
+  'pool_games_won',
+  'dart_games_won',
+] as const;
+
+export type NightStatField = typeof NIGHT_STAT_FIELDS[number];
+
+export type NightStatCounts = Partial<Record<NightStatField, number>>;
+
+// XP activity earned per unit of each counter
+export const NIGHT_STAT_XP_TYPES: Record<NightStatField, XPActivityType> = {
+  beers: 'beers',
+  shots: 'shots',
+  scoop_and_scores: 'scoop_and_scores',
+  beer_towers: 'beer_towers',
+  funnels: 'funnels',
+  shotguns: 'shotguns',
+  pool_games_won: 'pool_games',
+  dart_games_won: 'dart_games',
+};
@@ -0,0 +1,5 @@
+// Contacts are matched on SHA-256(E.164 number), hex encoded. The device
+// computes the digest with expo-crypto, so raw numbers never leave it; the
+// database keeps profiles.phone_hash in the same format whenever a verified
+// phone is written (see database.sql).
+export const PHONE_HASH_PATTERN = /^[a-f0-9]{64}$/;
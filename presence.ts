@@ -0,0 +1,33 @@
+import { getNextBusinessNightReset } from './businessNight';
+
+// Who sees a shared presence: every friend, or only the chosen ones
+export const PRESENCE_AUDIENCES = ['all_friends', 'selected_friends'] as const;
+
+export type PresenceAudience = typeof PRESENCE_AUDIENCES[number];
+
+export const MIN_PRESENCE_MINUTES = 15;
+export const MAX_PRESENCE_MINUTES = 12 * 60;
+export const DEFAULT_PRESENCE_MINUTES = 120;
+
+// Presence ends after the chosen duration or when the bar night resets,
+// whichever comes first, so nobody is left "out" the next afternoon
+export const getPresenceExpiry = (durationMinutes: number, timeZone?: string, now: Date = new Date()): Date => {
+  const minutes = Math.min(MAX_PRESENCE_MINUTES, Math.max(MIN_PRESENCE_MINUTES, durationMinutes));
+  const byDuration = new Date(now.getTime() + minutes * 60 * 1000);
+  const byReset = getNextBusinessNightReset(now, timeZone);
+  return byDuration < byReset ? byDuration : byReset;
+};
+
+export interface FriendPresence {
+  user_id: string;
+  username: string;
+  profile_picture: string | null;
+  rank_title: string;
+  since: string;
+  expires_at: string;
+}
+
+export interface VenuePresenceGroup {
+  venue_id: string;
+  friends: FriendPresence[];
+}
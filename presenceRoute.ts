@@ -0,0 +1,199 @@
+import { z } from "zod";
+import { protectedProcedure } from "./protectedProcedure";
+import { supabase } from "@/lib/supabase";
+import {
+  DEFAULT_PRESENCE_MINUTES,
+  FriendPresence,
+  getPresenceExpiry,
+  MAX_PRESENCE_MINUTES,
+  MIN_PRESENCE_MINUTES,
+  PRESENCE_AUDIENCES,
+  VenuePresenceGroup,
+} from "./presence";
+import { getFriendIds, loadProfileCards } from "./profileCards";
+import { loadVenueRecord } from "./venues";
+import { getBusinessNightKey } from "./businessNight";
+
+// Presence can only be shared from a venue the user has a verified check-in
+// at during its current business night
+const hasVerifiedCheckInTonight = async (userId: string, venueId: string, nightKey: string) => {
+  const { count, error } = await supabase
+    .from('venue_interactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('venue_id', venueId)
+    .eq('interaction_type', 'check_in')
+    .eq('verified', true)
+    .eq('night_key', nightKey);
+
+  if (error) throw error;
+  return (count || 0) > 0;
+};
+
+// One row per user; sharing a new venue replaces the old one
+export const sharePresenceProcedure = protectedProcedure
+  .input(z.object({
+    venueId: z.string().min(1).max(128),
+    audience: z.enum(PRESENCE_AUDIENCES),
+    friendIds: z.array(z.string().min(1).max(128)).max(500).optional(),
+    durationMinutes: z.number().int().min(MIN_PRESENCE_MINUTES).max(MAX_PRESENCE_MINUTES).optional(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const userId = ctx.user.id;
+
+    try {
+      // The venue's own time zone decides when its night resets
+      const venue = await loadVenueRecord(input.venueId);
+      if (!venue) {
+        return {
+          success: false,
+          code: 'UNKNOWN_VENUE',
+          error: 'Venue not found',
+          message: 'Failed to share presence'
+        };
+      }
+
+      const now = new Date();
+      const nightKey = getBusinessNightKey(now, venue.time_zone || undefined);
+
+      if (!(await hasVerifiedCheckInTonight(userId, venue.id, nightKey))) {
+        return {
+          success: false,
+          code: 'NOT_CHECKED_IN',
+          error: 'Check in at this venue before sharing where you are',
+          message: 'Failed to share presence'
+        };
+      }
+
+      let sharedWith: string[] = [];
+
+      if (input.audience === 'selected_friends') {
+        // Only current friends can be picked, whatever the client sends
+        const friendIds = await getFriendIds(userId);
+        sharedWith = Array.from(new Set(input.friendIds || [])).filter(id => friendIds.has(id));
+
+        if (sharedWith.length === 0) {
+          return {
+            success: false,
+            code: 'NO_FRIENDS_SELECTED',
+            error: 'Pick at least one friend to share with',
+            message: 'Failed to share presence'
+          };
+        }
+      }
+
+      const expiresAt = getPresenceExpiry(
+        input.durationMinutes ?? DEFAULT_PRESENCE_MINUTES,
+        venue.time_zone || undefined,
+        now
+      );
+
+      const { error } = await supabase
+        .from('presence')
+        .upsert({
+          user_id: userId,
+          venue_id: venue.id,
+          audience: input.audience,
+          shared_with: sharedWith,
+          started_at: now.toISOString(),
+          expires_at: expiresAt.toISOString(),
+        }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        venueId: venue.id,
+        expiresAt: expiresAt.toISOString(),
+      };
+    } catch (error) {
+      console.error('Error sharing presence:', error);
+      return {
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to share presence'
+      };
+    }
+  });
+
+export const clearPresenceProcedure = protectedProcedure
+  .mutation(async ({ ctx }) => {
+    try {
+      const { error } = await supabase
+        .from('presence')
+        .delete()
+        .eq('user_id', ctx.user.id);
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error clearing presence:', error);
+      return {
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to stop sharing presence'
+      };
+    }
+  });
+
+// Friends out right now that shared with the caller, grouped by venue with
+// the busiest venue first
+export const getFriendsOutProcedure = protectedProcedure
+  .query(async ({ ctx }) => {
+    const userId = ctx.user.id;
+
+    try {
+      const friendIds = Array.from(await getFriendIds(userId));
+      if (friendIds.length === 0) {
+        return { success: true, venues: [] as VenuePresenceGroup[] };
+      }
+
+      const { data, error } = await supabase
+        .from('presence')
+        .select('user_id, venue_id, audience, shared_with, started_at, expires_at')
+        .in('user_id', friendIds)
+        .gt('expires_at', new Date().toISOString());
+
+      if (error) throw error;
+
+      const visible = (data || []).filter((row: any) =>
+        row.audience === 'all_friends' || (row.shared_with || []).includes(userId)
+      );
+
+      // Cards drop anyone blocked in either direction
+      const cards = await loadProfileCards(userId, visible.map((row: any) => row.user_id));
+      const cardsById = new Map(cards.map(card => [card.id, card]));
+
+      const groups: Record<string, FriendPresence[]> = {};
+      visible.forEach((row: any) => {
+        const card = cardsById.get(row.user_id);
+        if (!card) return;
+
+        (groups[row.venue_id] = groups[row.venue_id] || []).push({
+          user_id: card.id,
+          username: card.username,
+          profile_picture: card.profile_picture_thumbnail || card.profile_picture,
+          rank_title: card.rank_title,
+          since: row.started_at,
+          expires_at: row.expires_at,
+        });
+      });
+
+      const venues: VenuePresenceGroup[] = Object.entries(groups)
+        .map(([venue_id, friends]) => ({
+          venue_id,
+          friends: friends.sort((a, b) => b.since.localeCompare(a.since)),
+        }))
+        .sort((a, b) => b.friends.length - a.friends.length);
+
+      return { success: true, venues };
+    } catch (error) {
+      console.error('Error loading friends out:', error);
+      return {
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to load friends out'
+      };
+    }
+  });
@@ -0,0 +1,188 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { trpcClient } from '@/lib/trpc';
+import { appEvents } from './appEvents';
+import { DEFAULT_PRESENCE_MINUTES, PresenceAudience, VenuePresenceGroup } from './presence';
+
+interface PresenceSettings {
+  // Nothing is ever shared until the user turns this on
+  enabled: boolean;
+  shareOnCheckIn: boolean;
+  audience: PresenceAudience;
+  selectedFriendIds: string[];
+  durationMinutes: number;
+}
+
+interface CurrentPresence {
+  venueId: string;
+  expiresAt: string;
+}
+
+interface PresenceState {
+  settings: PresenceSettings;
+  current: CurrentPresence | null;
+  friendsOut: VenuePresenceGroup[];
+  friendsOutLoadedAt: string | null;
+  updateSettings: (settings: Partial<PresenceSettings>) => Promise<void>;
+  shareVenue: (venueId: string) => Promise<boolean>;
+  stopSharing: () => Promise<void>;
+  clearExpiredPresence: () => void;
+  loadFriendsOut: () => Promise<VenuePresenceGroup[]>;
+}
+
+const DEFAULT_SETTINGS: PresenceSettings = {
+  enabled: false,
+  shareOnCheckIn: true,
+  audience: 'all_friends',
+  selectedFriendIds: [],
+  durationMinutes: DEFAULT_PRESENCE_MINUTES,
+};
+
+let expiryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+// The server stops showing expired presence by itself; this only keeps the
+// local "you're sharing" state honest
+const scheduleExpiry = (current: CurrentPresence | null, clear: () => void) => {
+  if (expiryTimeout) clearTimeout(expiryTimeout);
+  expiryTimeout = null;
+  if (!current) return;
+
+  const delay = Math.max(0, new Date(current.expiresAt).getTime() - Date.now());
+  expiryTimeout = setTimeout(() => {
+    expiryTimeout = null;
+    clear();
+  }, delay);
+};
+
+export const usePresenceStore = create<PresenceState>()(
+  persist(
+    (set, get) => ({
+      settings: DEFAULT_SETTINGS,
+      current: null,
+      friendsOut: [],
+      friendsOutLoadedAt: null,
+
+      updateSettings: async (settings) => {
+        const previous = get().settings;
+        set((state) => ({ settings: { ...state.settings, ...settings } }));
+
+        const { current } = get();
+        if (!current) return;
+
+        // Turning presence off takes us off the map straight away
+        if (settings.enabled === false) {
+          await get().stopSharing();
+          return;
+        }
+
+        // A new audience applies to the presence already shared too. If it
+        // can't be shared with them, stop rather than leave the old one live.
+        const next = get().settings;
+        const audienceChanged = next.audience !== previous.audience ||
+          (next.audience === 'selected_friends' &&
+            next.selectedFriendIds.join(',') !== previous.selectedFriendIds.join(','));
+
+        if (audienceChanged && !(await get().shareVenue(current.venueId))) {
+          await get().stopSharing();
+        }
+      },
+
+      shareVenue: async (venueId) => {
+        const { settings } = get();
+        if (!settings.enabled) return false;
+
+        try {
+          const result = await trpcClient.user.sharePresence.mutate({
+            venueId,
+            audience: settings.audience,
+            friendIds: settings.audience === 'selected_friends' ? settings.selectedFriendIds : undefined,
+            durationMinutes: settings.durationMinutes,
+          });
+
+          if (!result.success || !result.expiresAt) {
+            console.warn('Error sharing presence:', result.error);
+            return false;
+          }
+
+          const current = { venueId, expiresAt: result.expiresAt };
+          set({ current });
+          scheduleExpiry(current, get().clearExpiredPresence);
+
+          console.log(`📍 Sharing presence at ${venueId} until ${result.expiresAt}`);
+          return true;
+        } catch (error) {
+          console.warn('Error sharing presence:', error);
+          return false;
+        }
+      },
+
+      stopSharing: async () => {
+        set({ current: null });
+        scheduleExpiry(null, get().clearExpiredPresence);
+
+        try {
+          const result = await trpcClient.user.clearPresence.mutate();
+          if (!result.success) {
+            console.warn('Error clearing presence:', result.error);
+          }
+        } catch (error) {
+          console.warn('Error clearing presence:', error);
+        }
+      },
+
+      clearExpiredPresence: () => {
+        const { current } = get();
+        if (current && new Date(current.expiresAt).getTime() <= Date.now()) {
+          set({ current: null });
+        }
+      },
+
+      loadFriendsOut: async () => {
+        try {
+          const result = await trpcClient.user.getFriendsOut.query();
+
+          if (!result.success || !result.venues) {
+            console.warn('Error loading friends out:', result.error);
+            return get().friendsOut;
+          }
+
+          set({ friendsOut: result.venues, friendsOutLoadedAt: new Date().toISOString() });
+          return result.venues;
+        } catch (error) {
+          console.warn('Error loading friends out:', error);
+          return get().friendsOut;
+        }
+      },
+    }),
+    {
+      name: 'presence-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        settings: state.settings,
+        current: state.current,
+      }),
+      onRehydrateStorage: () => (state) => {
+        if (!state) return;
+        state.clearExpiredPresence();
+        scheduleExpiry(usePresenceStore.getState().current, state.clearExpiredPresence);
+      },
+    }
+  )
+);
+
+// Verified check-ins move our presence to the new bar when auto-share is on
+appEvents.on('checkedIn', ({ venueId }) => {
+  const { settings, current, shareVenue } = usePresenceStore.getState();
+  if (!settings.enabled || !settings.shareOnCheckIn) return;
+  if (current?.venueId === venueId && new Date(current.expiresAt).getTime() > Date.now()) return;
+
+  shareVenue(venueId);
+});
+
+AppState.addEventListener('change', (nextState) => {
+  if (nextState === 'active') {
+    usePresenceStore.getState().clearExpiredPresence();
+  }
+});
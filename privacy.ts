@@ -0,0 +1,69 @@
+export type PrivacyAudience = 'everyone' | 'friends' | 'nobody';
+
+// What another user can see of a profile. Username, picture and rank are
+// always public so people can be found and recognised. phone_discovery
+// controls who can match this profile from their contact book; it is off
+// until the user turns it on.
+export type PrivacyField = 'contact_info' | 'stats' | 'visited_bars' | 'phone_discovery';
+
+export type PrivacySettings = Record<PrivacyField, PrivacyAudience>;
+
+export type ViewerRelation = 'self' | 'friend' | 'other';
+
+export const PRIVACY_AUDIENCES: readonly PrivacyAudience[] = ['everyone', 'friends', 'nobody'];
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  contact_info: 'nobody',
+  stats: 'friends',
+  visited_bars: 'friends',
+  phone_discovery: 'nobody',
+};
+
+// Columns each setting governs on the profiles table
+export const PRIVACY_FIELD_COLUMNS: Record<PrivacyField, string[]> = {
+  contact_info: ['phone', 'email'],
+  stats: [
+    'xp',
+    'nights_out',
+    'bars_hit',
+    'total_beers',
+    'total_shots',
+    'total_scoop_and_scores',
+    'total_beer_towers',
+    'total_funnels',
+    'total_shotguns',
+    'pool_games_won',
+    'dart_games_won',
+  ],
+  visited_bars: ['visited_bars'],
+  phone_discovery: ['phone_hash'],
+};
+
+// Fills gaps and drops unknown values so a malformed row falls back to the
+// defaults rather than to "everyone"
+export const normalizePrivacySettings = (raw: unknown): PrivacySettings => {
+  const settings = { ...DEFAULT_PRIVACY_SETTINGS };
+  if (!raw || typeof raw !== 'object') return settings;
+
+  (Object.keys(settings) as PrivacyField[]).forEach(field => {
+    const value = (raw as Record<string, unknown>)[field];
+    if (PRIVACY_AUDIENCES.includes(value as PrivacyAudience)) {
+      settings[field] = value as PrivacyAudience;
+    }
+  });
+
+  return settings;
+};
+
+export const canViewField = (settings: PrivacySettings, field: PrivacyField, relation: ViewerRelation): boolean => {
+  if (relation === 'self') return true;
+
+  switch (settings[field]) {
+    case 'everyone':
+      return true;
+    case 'friends':
+      return relation === 'friend';
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,109 @@
+import { supabase } from "@/lib/supabase";
+import { getRankForXP } from "./ranks";
+import { canViewField, normalizePrivacySettings, ViewerRelation } from "./privacy";
+
+// Another user's profile as the viewer is allowed to see it. Hidden fields
+// are null rather than omitted so clients can tell "hidden" from "zero".
+export interface ProfileCard {
+  id: string;
+  username: string;
+  profile_picture: string | null;
+  profile_picture_thumbnail: string | null;
+  // Rank is public; the XP behind it is a stat
+  rank_title: string;
+  level: number;
+  relation: ViewerRelation;
+  phone: string | null;
+  email: string | null;
+  xp: number | null;
+  nights_out: number | null;
+  bars_hit: number | null;
+  visited_bars: string[] | null;
+  created_at: string;
+}
+
+const CARD_COLUMNS = [
+  'id',
+  'username',
+  'profile_picture',
+  'profile_picture_thumbnail',
+  'privacy_settings',
+  'phone',
+  'email',
+  'xp',
+  'nights_out',
+  'bars_hit',
+  'visited_bars',
+  'created_at',
+].join(', ');
+
+export const getFriendIds = async (userId: string): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('friends')
+    .select('friend_id')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return new Set((data || []).map((row: any) => row.friend_id).filter(Boolean));
+};
+
+// Users who blocked the viewer or whom the viewer blocked
+export const getBlockedIds = async (userId: string): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('blocked_users')
+    .select('blocker_id, blocked_id')
+    .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`);
+
+  if (error) throw error;
+
+  return new Set((data || []).map((row: any) => (row.blocker_id === userId ? row.blocked_id : row.blocker_id)));
+};
+
+export const toProfileCard = (row: any, relation: ViewerRelation): ProfileCard => {
+  const settings = normalizePrivacySettings(row.privacy_settings);
+  const showContact = canViewField(settings, 'contact_info', relation);
+  const showStats = canViewField(settings, 'stats', relation);
+  const showBars = canViewField(settings, 'visited_bars', relation);
+  const rank = getRankForXP(row.xp || 0);
+
+  return {
+    id: row.id,
+    username: row.username,
+    profile_picture: row.profile_picture || null,
+    profile_picture_thumbnail: row.profile_picture_thumbnail || null,
+    rank_title: rank.title,
+    level: rank.level,
+    relation,
+    phone: showContact ? row.phone || null : null,
+    email: showContact ? row.email || null : null,
+    xp: showStats ? row.xp || 0 : null,
+    nights_out: showStats ? row.nights_out || 0 : null,
+    bars_hit: showStats ? row.bars_hit || 0 : null,
+    visited_bars: showBars ? row.visited_bars || [] : null,
+    created_at: row.created_at,
+  };
+};
+
+// Loads cards for the given users as seen by viewerId. Blocked users are
+// dropped entirely. Every server path that returns another user's profile
+// data goes through here.
+export const loadProfileCards = async (viewerId: string, userIds: string[]): Promise<ProfileCard[]> => {
+  const ids = Array.from(new Set(userIds.filter(Boolean)));
+  if (ids.length === 0) return [];
+
+  const [friendIds, blockedIds, profiles] = await Promise.all([
+    getFriendIds(viewerId),
+    getBlockedIds(viewerId),
+    supabase.from('profiles').select(CARD_COLUMNS).in('id', ids),
+  ]);
+
+  if (profiles.error) throw profiles.error;
+
+  return (profiles.data || [])
+    .filter((row: any) => !blockedIds.has(row.id))
+    .map((row: any) => {
+      const relation: ViewerRelation = row.id === viewerId ? 'self' : friendIds.has(row.id) ? 'friend' : 'other';
+      return toProfileCard(row, relation);
+    });
+};
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { protectedProcedure } from "./protectedProcedure";
+import { loadProfileCards } from "./profileCards";
+
+export const getProfileCardsProcedure = protectedProcedure
+  .input(z.object({
+    userIds: z.array(z.string().min(1).max(128)).min(1).max(200),
+  }))
+  .query(async ({ ctx, input }) => {
+    try {
+      const cards = await loadProfileCards(ctx.user.id, input.userIds);
+
+      return {
+        success: true,
+        cards,
+      };
+    } catch (error) {
+      console.error('Error loading profile cards:', error);
+      return {
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to load profiles'
+      };
+    }
+  });
+
+export default getProfileCardsProcedure;
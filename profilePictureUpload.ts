@@ -0,0 +1,175 @@
+import * as FileSystem from 'expo-file-system';
+import * as ImageManipulator from 'expo-image-manipulator';
+import { decode } from 'base64-arraybuffer';
+import { supabase } from '@/lib/supabase';
+
+export type ProfilePictureErrorCode =
+  | 'NOT_FOUND'
+  | 'UNSUPPORTED_TYPE'
+  | 'TOO_LARGE'
+  | 'PROCESSING_FAILED'
+  | 'UPLOAD_FAILED';
+
+export type ProfilePictureUploadResult =
+  | { success: true; url: string; thumbnailUrl: string }
+  | { success: false; error: ProfilePictureErrorCode; message: string };
+
+// Where processed pictures end up. Supabase Storage in real builds; the local
+// stand-in lets development work without a bucket.
+export interface ProfilePictureStorage {
+  upload: (path: string, base64: string, contentType: string) => Promise<string>;
+  remove: (urls: string[]) => Promise<void>;
+}
+
+const BUCKET = 'avatars';
+const MAX_SOURCE_BYTES = 10 * 1024 * 1024;
+const PICTURE_SIZE = 512;
+const THUMBNAIL_SIZE = 128;
+const OUTPUT_CONTENT_TYPE = 'image/jpeg';
+
+const ALLOWED_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+
+// Identify the real format from the file's first bytes rather than trusting
+// the extension or the picker's reported type
+const sniffContentType = (bytes: Uint8Array): string | null => {
+  const ascii = (start: number, end: number) => String.fromCharCode(...Array.from(bytes.slice(start, end)));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(4, 8) === 'ftyp' && ['heic', 'heix', 'mif1', 'msf1'].includes(ascii(8, 12))) return 'image/heic';
+  return null;
+};
+
+const supabaseStorage: ProfilePictureStorage = {
+  upload: async (path, base64, contentType) => {
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .upload(path, decode(base64), { contentType, upsert: false });
+
+    if (error) throw error;
+
+    return supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl;
+  },
+  remove: async (urls) => {
+    const marker = `/object/public/${BUCKET}/`;
+    const paths = urls
+      .map(url => (url && url.includes(marker) ? decodeURIComponent(url.split(marker)[1].split('?')[0]) : null))
+      .filter((path): path is string => !!path);
+
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage.from(BUCKET).remove(paths);
+    if (error) throw error;
+  },
+};
+
+const LOCAL_ROOT = `${FileSystem.documentDirectory}${BUCKET}/`;
+
+const localStorage: ProfilePictureStorage = {
+  upload: async (path, base64) => {
+    const fileUri = `${LOCAL_ROOT}${path}`;
+    await FileSystem.makeDirectoryAsync(fileUri.slice(0, fileUri.lastIndexOf('/')), { intermediates: true });
+    await FileSystem.writeAsStringAsync(fileUri, base64, { encoding: FileSystem.EncodingType.Base64 });
+    return fileUri;
+  },
+  remove: async (urls) => {
+    await Promise.all(
+      urls
+        .filter(url => url && url.startsWith(LOCAL_ROOT))
+        .map(url => FileSystem.deleteAsync(url, { idempotent: true }))
+    );
+  },
+};
+
+export const getProfilePictureStorage = (): ProfilePictureStorage => {
+  return process.env.EXPO_PUBLIC_PROFILE_PICTURE_STORAGE === 'local' ? localStorage : supabaseStorage;
+};
+
+// Only the width is given so the aspect ratio is kept; a picture that
+// somehow isn't square is scaled, never stretched
+const resizeToJpeg = async (uri: string, size: number) => {
+  const result = await ImageManipulator.manipulateAsync(
+    uri,
+    [{ resize: { width: size } }],
+    { compress: 0.8, format: ImageManipulator.SaveFormat.JPEG, base64: true }
+  );
+
+  if (!result.base64) throw new Error('Image manipulator returned no data');
+  return result.base64;
+};
+
+// Validates a local image, resizes it to a square picture and thumbnail, and
+// uploads both. Callers crop to a square before this (the image picker's
+// allowsEditing with a 1:1 aspect does that).
+export const uploadProfilePicture = async (userId: string, localUri: string): Promise<ProfilePictureUploadResult> => {
+  try {
+    const info = await FileSystem.getInfoAsync(localUri, { size: true });
+    if (!info.exists) {
+      return { success: false, error: 'NOT_FOUND', message: 'Picture could not be found on this device' };
+    }
+
+    if (info.size && info.size > MAX_SOURCE_BYTES) {
+      return { success: false, error: 'TOO_LARGE', message: 'Picture must be smaller than 10 MB' };
+    }
+
+    const header = await FileSystem.readAsStringAsync(localUri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: 0,
+      length: 16,
+    });
+    const contentType = sniffContentType(new Uint8Array(decode(header)));
+
+    if (!contentType || !ALLOWED_CONTENT_TYPES.includes(contentType)) {
+      return { success: false, error: 'UNSUPPORTED_TYPE', message: 'Picture must be a JPEG, PNG, WebP or HEIC image' };
+    }
+
+    let picture: string;
+    let thumbnail: string;
+    try {
+      [picture, thumbnail] = await Promise.all([
+        resizeToJpeg(localUri, PICTURE_SIZE),
+        resizeToJpeg(localUri, THUMBNAIL_SIZE),
+      ]);
+    } catch (error) {
+      console.error('Error resizing profile picture:', error);
+      return { success: false, error: 'PROCESSING_FAILED', message: 'Picture could not be processed' };
+    }
+
+    const storage = getProfilePictureStorage();
+    const basePath = `${userId}/${Date.now()}`;
+
+    const [pictureUpload, thumbnailUpload] = await Promise.allSettled([
+      storage.upload(`${basePath}.jpg`, picture, OUTPUT_CONTENT_TYPE),
+      storage.upload(`${basePath}_thumb.jpg`, thumbnail, OUTPUT_CONTENT_TYPE),
+    ]);
+
+    if (pictureUpload.status === 'rejected' || thumbnailUpload.status === 'rejected') {
+      // Don't leave half a picture behind
+      await removeProfilePictures([
+        pictureUpload.status === 'fulfilled' ? pictureUpload.value : null,
+        thumbnailUpload.status === 'fulfilled' ? thumbnailUpload.value : null,
+      ]);
+      const failed = [pictureUpload, thumbnailUpload]
+        .find((upload): upload is PromiseRejectedResult => upload.status === 'rejected');
+      throw failed?.reason;
+    }
+
+    return { success: true, url: pictureUpload.value, thumbnailUrl: thumbnailUpload.value };
+  } catch (error) {
+    console.error('Error uploading profile picture:', error);
+    return { success: false, error: 'UPLOAD_FAILED', message: 'Picture upload failed, please try again' };
+  }
+};
+
+// Best effort: a leftover object is wasted space, not a broken profile
+export const removeProfilePictures = async (urls: (string | null | undefined)[]) => {
+  const existing = urls.filter((url): url is string => !!url);
+  if (existing.length === 0) return;
+
+  try {
+    await getProfilePictureStorage().remove(existing);
+  } catch (error) {
+    console.warn('Error removing old profile picture:', error);
+  }
+};
@@ -0,0 +1,149 @@
+export type ProfileField = 'username' | 'phone' | 'email';
+
+export type ProfileFieldErrorCode =
+  | 'USERNAME_REQUIRED'
+  | 'USERNAME_TOO_SHORT'
+  | 'USERNAME_TOO_LONG'
+  | 'USERNAME_INVALID_CHARACTERS'
+  | 'USERNAME_RESERVED'
+  | 'USERNAME_TAKEN'
+  | 'PHONE_INVALID'
+  | 'EMAIL_INVALID';
+
+export interface ProfileFieldError {
+  field: ProfileField;
+  code: ProfileFieldErrorCode;
+  message: string;
+}
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 20;
+
+// Letters, digits, underscores and dots; must start with a letter and can't
+// end on or repeat a dot, so handles stay readable in mentions
+const USERNAME_PATTERN = /^[a-z][a-z0-9_]*(\.[a-z0-9_]+)*$/i;
+
+export const RESERVED_USERNAMES = [
+  'admin',
+  'administrator',
+  'barbuddy',
+  'bar_buddy',
+  'help',
+  'moderator',
+  'mod',
+  'null',
+  'official',
+  'root',
+  'staff',
+  'support',
+  'system',
+  'undefined',
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const DEFAULT_COUNTRY_CODE = '1';
+
+export const validateUsername = (raw: string): ProfileFieldError | null => {
+  const username = raw.trim();
+
+  if (!username) {
+    return { field: 'username', code: 'USERNAME_REQUIRED', message: 'Choose a username' };
+  }
+  if (username.length < USERNAME_MIN_LENGTH) {
+    return { field: 'username', code: 'USERNAME_TOO_SHORT', message: `Username must be at least ${USERNAME_MIN_LENGTH} characters` };
+  }
+  if (username.length > USERNAME_MAX_LENGTH) {
+    return { field: 'username', code: 'USERNAME_TOO_LONG', message: `Username must be at most ${USERNAME_MAX_LENGTH} characters` };
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    return {
+      field: 'username',
+      code: 'USERNAME_INVALID_CHARACTERS',
+      message: 'Username must start with a letter and use only letters, numbers, underscores and dots',
+    };
+  }
+  if (RESERVED_USERNAMES.includes(username.toLowerCase())) {
+    return { field: 'username', code: 'USERNAME_RESERVED', message: 'That username is reserved' };
+  }
+
+  return null;
+};
+
+// Normalizes to E.164 (+<country><number>). Numbers without a leading + or
+// 00 prefix are treated as national numbers in the default country.
+export const normalizePhone = (raw: string, defaultCountryCode: string = DEFAULT_COUNTRY_CODE): string | null => {
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+
+  // Only digits and common formatting characters are allowed
+  if (!/^\+?[\d\s().-]+$/.test(trimmed)) return null;
+
+  let digits = trimmed.replace(/\D/g, '');
+  const isInternational = trimmed.startsWith('+') || digits.startsWith('00');
+  // North American numbers are often typed with the trunk prefix: 1 555 ...
+  const hasTrunkPrefix = defaultCountryCode === '1' && digits.length === 11 && digits.startsWith('1');
+
+  if (isInternational) {
+    digits = digits.replace(/^00/, '');
+  } else if (!hasTrunkPrefix) {
+    digits = `${defaultCountryCode}${digits.replace(/^0+/, '')}`;
+  }
+
+  // E.164 allows at most 15 digits; anything under 8 is not a real number
+  if (!/^[1-9]\d{7,14}$/.test(digits)) return null;
+
+  return `+${digits}`;
+};
+
+export const normalizeEmail = (raw: string): string | null => {
+  const email = raw.trim().toLowerCase();
+  return email.length <= 254 && EMAIL_PATTERN.test(email) ? email : null;
+};
+
+// Escapes LIKE wildcards so a username can be matched literally with ilike
+export const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+
+export interface ProfileFieldsInput {
+  username: string;
+  phone?: string;
+  email?: string;
+}
+
+export interface ValidatedProfileFields {
+  username: string;
+  phone: string | null;
+  email: string | null;
+}
+
+// Runs every field check and returns either normalized values or all the
+// field errors at once, so a form can flag each field in one round trip
+export const validateProfileFields = (
+  input: ProfileFieldsInput
+): { success: true; values: ValidatedProfileFields } | { success: false; errors: ProfileFieldError[] } => {
+  const errors: ProfileFieldError[] = [];
+
+  const usernameError = validateUsername(input.username);
+  if (usernameError) errors.push(usernameError);
+
+  let phone: string | null = null;
+  if (input.phone && input.phone.trim()) {
+    phone = normalizePhone(input.phone);
+    if (!phone) {
+      errors.push({ field: 'phone', code: 'PHONE_INVALID', message: 'Enter a valid phone number including area code' });
+    }
+  }
+
+  let email: string | null = null;
+  if (input.email && input.email.trim()) {
+    email = normalizeEmail(input.email);
+    if (!email) {
+      errors.push({ field: 'email', code: 'EMAIL_INVALID', message: 'Enter a valid email address' });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return { success: true, values: { username: input.username.trim(), phone, email } };
+};
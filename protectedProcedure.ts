@@ -0,0 +1,31 @@
+import { TRPCError } from "@trpc/server";
+import { publicProcedure } from "../../../create-context";
+import { supabase } from "@/lib/supabase";
+
+// Resolves the caller from the Supabase access token in the Authorization
+// header. Procedures built on this must take the user ID from ctx.user and
+// never from their input.
+export const protectedProcedure = publicProcedure.use(async ({ ctx, next }) => {
+  const authorization = ctx.req?.headers.get('authorization') || '';
+  const accessToken = authorization.replace(/^Bearer\s+/i, '').trim();
+
+  if (!accessToken) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Missing access token' });
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(accessToken);
+
+  if (error || !user) {
+    console.warn('Rejected request with invalid session:', error?.message);
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid or expired session' });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      user,
+    },
+  });
+});
+
+export default protectedProcedure;
@@ -0,0 +1,64 @@
+export interface RankTier {
+  level: number;
+  title: string;
+  minXP: number;
+}
+
+export interface RankInfo extends RankTier {
+  nextTitle: string | null;
+  nextLevelXP: number | null;
+  xpIntoLevel: number;
+  xpForNextLevel: number | null;
+  progress: number; // 0-1 progress towards the next level, 1 at max level
+}
+
+// Ordered by minXP, lowest first
+export const RANKS: RankTier[] = [
+  { level: 1, title: 'Bar Newbie', minXP: 0 },
+  { level: 2, title: 'Bar Explorer', minXP: 100 },
+  { level: 3, title: 'Pub Crawler', minXP: 300 },
+  { level: 4, title: 'Night Owl', minXP: 600 },
+  { level: 5, title: 'Social Sipper', minXP: 1000 },
+  { level: 6, title: 'Bar Regular', minXP: 1600 },
+  { level: 7, title: 'Party Starter', minXP: 2500 },
+  { level: 8, title: 'Nightlife Pro', minXP: 4000 },
+  { level: 9, title: 'Bar Legend', minXP: 6000 },
+  { level: 10, title: 'Bar Buddy Icon', minXP: 9000 },
+];
+
+export const getRankForXP = (xp: number): RankInfo => {
+  const safeXP = Math.max(0, xp || 0);
+
+  let index = 0;
+  for (let i = 0; i < RANKS.length; i++) {
+    if (safeXP >= RANKS[i].minXP) index = i;
+  }
+
+  const current = RANKS[index];
+  const next = RANKS[index + 1];
+  const xpIntoLevel = safeXP - current.minXP;
+
+  if (!next) {
+    return {
+      ...current,
+      nextTitle: null,
+      nextLevelXP: null,
+      xpIntoLevel,
+      xpForNextLevel: null,
+      progress: 1,
+    };
+  }
+
+  const xpForNextLevel = next.minXP - current.minXP;
+
+  return {
+    ...current,
+    nextTitle: next.title,
+    nextLevelXP: next.minXP,
+    xpIntoLevel,
+    xpForNextLevel,
+    progress: Math.min(1, xpIntoLevel / xpForNextLevel),
+  };
+};
+
+export const getRankTitle = (xp: number): string => getRankForXP(xp).title;
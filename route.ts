@@ -1,47 +1,278 @@
 import { z } from "zod";
-import { publicProcedure } from "../../../create-context";
+import { protectedProcedure } from "./protectedProcedure";
 import { supabase } from "@/lib/supabase";
+import {
+  escapeLikePattern,
+  normalizeEmail,
+  normalizePhone,
+  ProfileFieldError,
+  validateProfileFields,
+  validateUsername,
+} from "./profileValidation";
 
-export const createProfileProcedure = publicProcedure
+const validationFailure = (fieldErrors: ProfileFieldError[]) => ({
+  success: false as const,
+  error: 'VALIDATION_FAILED',
+  message: fieldErrors[0]?.message || 'Please check your details',
+  fieldErrors,
+});
+
+const usernameTaken = () => validationFailure([
+  { field: 'username', code: 'USERNAME_TAKEN', message: 'That username is already taken' },
+]);
+
+// The unique index on lower(username), profiles_username_lower_idx
+const isUsernameConflict = (error: { code?: string; message?: string } | null) => {
+  return error?.code === '23505' && !!error.message?.includes('username');
+};
+
+// Usernames are unique regardless of case; the unique index on
+// lower(username) backs this up if two requests race
+const isUsernameTaken = async (username: string, userId: string) => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id')
+    .ilike('username', escapeLikePattern(username))
+    .neq('id', userId)
+    .limit(1);
+
+  if (error) throw error;
+  return !!data && data.length > 0;
+};
+
+// Starting values for a brand new profile only. Existing profiles keep their
+// XP and counters no matter what this procedure is called with.
+const NEW_PROFILE_DEFAULTS = {
+  xp: 0,
+  nights_out: 0,
+  bars_hit: 0,
+  drunk_scale_ratings: [],
+  total_shots: 0,
+  total_scoop_and_scores: 0,
+  total_beers: 0,
+  total_beer_towers: 0,
+  total_funnels: 0,
+  total_shotguns: 0,
+  pool_games_won: 0,
+  dart_games_won: 0,
+  photos_taken: 0,
+  xp_activities: [],
+  visited_bars: [],
+  daily_stats: {},
+};
+
+// Phone and email only ever come from the session, and only once Supabase
+// Auth has confirmed them. Auth stores phones as bare E.164 digits.
+const getVerifiedContact = (user: {
+  phone?: string;
+  phone_confirmed_at?: string;
+  email?: string;
+  email_confirmed_at?: string;
+}) => ({
+  phone: user.phone && user.phone_confirmed_at
+    ? (user.phone.startsWith('+') ? user.phone : `+${user.phone}`)
+    : undefined,
+  email: user.email && user.email_confirmed_at ? user.email : undefined,
+});
+
+const writeAuditEntry = async (userId: string, action: string, details: Record<string, unknown>) => {
+  const { error } = await supabase
+    .from('profile_audit_log')
+    .insert({
+      user_id: userId,
+      actor_id: userId,
+      action,
+      details,
+      created_at: new Date().toISOString(),
+    });
+
+  // The profile write already happened; a missing audit row is logged loudly
+  // rather than failing the request
+  if (error) {
+    console.error('Failed to write profile audit entry:', error);
+  }
+};
+
+// Placeholder names tried before giving up on a signed-in user's first load
+const GUEST_USERNAME_ATTEMPTS = 5;
+
+const generateGuestUsername = () => `guest_${Math.floor(Math.random() * 100000)}`;
+
+// A profile for a signed-in user who hasn't finished onboarding yet, so the
+// app has a row to load. Onboarding later sets the real username through
+// createProfile. An existing profile is never touched.
+const createPlaceholderProfile = async (
+  userId: string,
+  contact: { phone?: string; email?: string },
+  preferredUsername?: string
+) => {
+  const { data: existing, error: existingError } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  if (existing) {
+    return {
+      success: true,
+      profileId: existing.id,
+      created: false,
+      message: 'Profile already exists'
+    };
+  }
+
+  const phone = contact.phone ? normalizePhone(contact.phone) : null;
+  const email = contact.email ? normalizeEmail(contact.email) : null;
+  const candidates = [
+    ...(preferredUsername && !validateUsername(preferredUsername) ? [preferredUsername.trim()] : []),
+    ...Array.from({ length: GUEST_USERNAME_ATTEMPTS }, generateGuestUsername),
+  ];
+
+  for (const username of candidates) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .insert({
+        id: userId,
+        username,
+        phone,
+        email,
+        has_completed_onboarding: false,
+        ...NEW_PROFILE_DEFAULTS,
+      })
+      .select('id')
+      .single();
+
+    if (!error) {
+      await writeAuditEntry(userId, 'create', { username, placeholder: true, has_phone: !!phone, has_email: !!email });
+      console.log('Placeholder profile created in Supabase:', data.id);
+      return {
+        success: true,
+        profileId: data.id,
+        created: true,
+        message: 'Profile created successfully'
+      };
+    }
+
+    if (isUsernameConflict(error)) continue;
+
+    // Created by a concurrent first load
+    if (error.code === '23505') {
+      return {
+        success: true,
+        profileId: userId,
+        created: false,
+        message: 'Profile already exists'
+      };
+    }
+
+    throw error;
+  }
+
+  return {
+    success: false,
+    error: 'USERNAME_UNAVAILABLE',
+    message: 'Failed to create profile'
+  };
+};
+
+export const createProfileProcedure = protectedProcedure
   .input(z.object({ 
-    userId: z.string(),
-    username: z.string(),
-    phone: z.string().optional(),
-    email: z.string().optional(),
+    // Field rules live in validateProfileFields so every failure comes back
+    // as a typed per-field code instead of a generic zod error. Without a
+    // username only a placeholder profile is created, if none exists yet.
+    username: z.string().max(64).optional(),
     profilePicture: z.string().optional(),
   }))
-  .mutation(async ({ input }) => {
+  .mutation(async ({ ctx, input }) => {
+    const userId = ctx.user.id;
+
+    if (input.username === undefined) {
+      try {
+        const metadataUsername = ctx.user.user_metadata?.username;
+        return await createPlaceholderProfile(
+          userId,
+          getVerifiedContact(ctx.user),
+          typeof metadataUsername === 'string' ? metadataUsername : undefined
+        );
+      } catch (error) {
+        console.error('Error creating profile:', error);
+        return {
+          success: false,
+          error: 'Internal server error',
+          message: 'Failed to create profile'
+        };
+      }
+    }
+
+    const validation = validateProfileFields({
+      username: input.username,
+      ...getVerifiedContact(ctx.user),
+    });
+    if (!validation.success) {
+      return validationFailure(validation.errors);
+    }
+
+    const { username, phone, email } = validation.values;
+
     try {
-      const { data, error } = await supabase
+      if (await isUsernameTaken(username, userId)) {
+        return usernameTaken();
+      }
+
+      const identity = {
+        username,
+        phone,
+        email,
+        ...(input.profilePicture !== undefined ? { profile_picture: input.profilePicture } : {}),
+        has_completed_onboarding: true,
+      };
+
+      const { data: existing, error: existingError } = await supabase
         .from('profiles')
-        .upsert({
-          id: input.userId,
-          username: input.username,
-          phone: input.phone || null,
-          email: input.email || null,
-          profile_picture: input.profilePicture,
-          has_completed_onboarding: true,
-          xp: 0,
-          nights_out: 0,
-          bars_hit: 0,
-          drunk_scale_ratings: [],
-          total_shots: 0,
-          total_scoop_and_scores: 0,
-          total_beers: 0,
-          total_beer_towers: 0,
-          total_funnels: 0,
-          total_shotguns: 0,
-          pool_games_won: 0,
-          dart_games_won: 0,
-          photos_taken: 0,
-          xp_activities: [],
-          visited_bars: [],
-          daily_stats: {},
-        })
-        .select()
-        .single();
+        .select('id')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (existingError) {
+        console.error('Supabase error:', existingError);
+        return {
+          success: false,
+          error: existingError.message,
+          message: 'Failed to create profile'
+        };
+      }
+
+      let created = false;
+      let result = existing
+        ? null
+        : await supabase
+            .from('profiles')
+            .insert({ id: userId, ...identity, ...NEW_PROFILE_DEFAULTS })
+            .select('id')
+            .single();
+
+      if (result && !result.error) {
+        created = true;
+      } else if (!result || (result.error?.code === '23505' && !isUsernameConflict(result.error))) {
+        // Profile already exists (possibly created a moment ago by the
+        // client's own first load): only touch identity fields
+        result = await supabase
+          .from('profiles')
+          .update(identity)
+          .eq('id', userId)
+          .select('id')
+          .single();
+      }
+
+      const { data, error } = result;
 
       if (error) {
+        if (isUsernameConflict(error)) {
+          return usernameTaken();
+        }
+
         console.error('Supabase error:', error);
         return {
           success: false,
@@ -50,12 +281,17 @@ export const createProfileProcedure = publicProcedure
         };
       }
 
-      console.log('User profile created/updated in Supabase:', data);
+      if (created) {
+        await writeAuditEntry(userId, 'create', { username, has_phone: !!phone, has_email: !!email });
+      }
+
+      console.log(created ? 'User profile created in Supabase:' : 'User profile updated in Supabase:', data.id);
       
       return {
         success: true,
         profileId: data.id,
-        message: 'Profile created successfully'
+        created,
+        message: created ? 'Profile created successfully' : 'Profile updated successfully'
       };
     } catch (error) {
       console.error('Error creating profile:', error);
@@ -67,4 +303,72 @@ export const createProfileProcedure = publicProcedure
     }
   });
 
-export default createProfileProcedure;
\ No newline at end of file
+// The only way to change a username once the profile exists; the app can't
+// write the column directly
+export const updateUsernameProcedure = protectedProcedure
+  .input(z.object({
+    username: z.string().max(64),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const userId = ctx.user.id;
+
+    const usernameError = validateUsername(input.username);
+    if (usernameError) {
+      return validationFailure([usernameError]);
+    }
+
+    const username = input.username.trim();
+
+    try {
+      if (await isUsernameTaken(username, userId)) {
+        return usernameTaken();
+      }
+
+      const { data: previous, error: previousError } = await supabase
+        .from('profiles')
+        .select('username')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (previousError) throw previousError;
+
+      if (!previous) {
+        return {
+          success: false,
+          error: 'PROFILE_NOT_FOUND',
+          message: 'Create your profile first'
+        };
+      }
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ username, updated_at: new Date().toISOString() })
+        .eq('id', userId);
+
+      if (error) {
+        if (isUsernameConflict(error)) {
+          return usernameTaken();
+        }
+        throw error;
+      }
+
+      if (previous.username !== username) {
+        await writeAuditEntry(userId, 'update_username', { from: previous.username, to: username });
+      }
+
+      return {
+        success: true,
+        username,
+        message: 'Username updated successfully'
+      };
+    } catch (error) {
+      console.error('Error updating username:', error);
+      return {
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to update username'
+      };
+    }
+  });
+
+export default createProfileProcedure;
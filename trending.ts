@@ -0,0 +1,70 @@
+export type TrendingEventType = 'check_in' | 'like';
+
+// One venue's decayed score from everyone's countable interactions: verified
+// check-ins and likes. Scores are computed by the venue_trending_scores
+// function in database.sql, with the parameters below.
+export interface TrendingScore {
+  venueId: string;
+  score: number;
+  // The score as it stood RISING_LOOKBACK_HOURS ago
+  previousScore: number;
+  // Raw counts inside the trending window, for display
+  checkIns: number;
+  likes: number;
+}
+
+export interface TrendingVenue {
+  venueId: string;
+  score: number;
+  checkIns: number;
+  likes: number;
+}
+
+export interface RisingVenue {
+  venueId: string;
+  score: number;
+  previousScore: number;
+  change: number;
+}
+
+// An event loses half its weight every TRENDING_HALF_LIFE_HOURS, and events
+// older than the window are ignored entirely
+export const TRENDING_HALF_LIFE_HOURS = 3;
+export const TRENDING_WINDOW_HOURS = 48;
+
+// Being there counts for more than liking a time slot
+export const TRENDING_EVENT_WEIGHTS: Record<TrendingEventType, number> = {
+  check_in: 1,
+  like: 0.5,
+};
+
+// A venue is rising when its score grew by at least this much in the last
+// hour and by at least RISING_MIN_RATIO relative to an hour ago
+export const RISING_LOOKBACK_HOURS = 1;
+const RISING_MIN_CHANGE = 1;
+const RISING_MIN_RATIO = 1.5;
+
+export const getTrendingVenues = (scores: TrendingScore[], limit = 10): TrendingVenue[] => {
+  return (scores || [])
+    .filter(venue => venue && venue.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ venueId, score, checkIns, likes }) => ({ venueId, score, checkIns, likes }));
+};
+
+// Compares each venue's score now with its score an hour ago. Decay means a
+// venue with no new activity always scores lower now, so only fresh
+// activity can make a venue rise.
+export const getRisingVenues = (scores: TrendingScore[], limit = 10): RisingVenue[] => {
+  return (scores || [])
+    .filter(venue => venue && venue.score > 0)
+    .map(venue => ({
+      venueId: venue.venueId,
+      score: venue.score,
+      previousScore: venue.previousScore,
+      change: venue.score - venue.previousScore,
+    }))
+    .filter(venue => venue.change >= RISING_MIN_CHANGE && venue.score >= venue.previousScore * RISING_MIN_RATIO)
+    .sort((a, b) => b.change - a.change)
+    .slice(0, limit);
+};
@@ -1,36 +1,142 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
 import { supabase } from '@/lib/supabase';
-
+import { trpcClient } from '@/lib/trpc';
+import { ClientXPActivityType, XP_VALUES, XPActivityType } from './xpValues';
+import { getRankForXP, RankInfo } from './ranks';
+import { getActiveTimeZone, getBusinessNightKey, hasBusinessNightChanged } from './businessNight';
+import { NightStatCounts } from './nightStats';
+import { useNightSessionStore } from './nightSessionStore';
+import {
+  DEFAULT_GUARDRAIL_SETTINGS,
+  evaluateGuardrails,
+  GuardrailSettings,
+  GuardrailStatus,
+} from './guardrails';
+import { ProfilePictureUploadResult, removeProfilePictures, uploadProfilePicture } from './profilePictureUpload';
+import { normalizePhone, ProfileFieldError } from './profileValidation';
+import { DEFAULT_PRIVACY_SETTINGS, PrivacySettings } from './privacy';
+import { DEFAULT_FEED_SETTINGS, FeedItem, FeedSettings } from './activityFeed';
+import type { ProfileCard } from './profileCards';
+import type { UserSearchResult } from './userSearchRoute';
+import type { ContactMatch } from './contactDiscoveryRoute';
+import type { FriendSuggestion } from './friendSuggestionsRoute';
+import type { BlockedUser } from './blockedUsersRoute';
+import { hashContactPhones } from './contactHashing';
+import { appEvents, ProfileStats } from './appEvents';
+import {
+  evaluateAchievements,
+  getAchievement,
+  getAchievementTier,
+  UnlockedAchievement,
+} from './achievements';
+
+// Contact details and stats are null when the friend's privacy settings hide them
 interface Friend {
   id: string;
   username: string;
-  phone: string;
+  phone: string | null;
   email?: string | null;
-  xp: number;
-  nights_out: number;
-  bars_hit: number;
+  xp: number | null;
+  nights_out: number | null;
+  bars_hit: number | null;
+  profile_picture?: string | null;
   rank_title: string;
+  level: number;
   created_at: string;
 }
 
+export interface UserSearchPage {
+  results: UserSearchResult[];
+  nextCursor: number | null;
+}
+
+export type FriendRequestError =
+  | 'NOT_SIGNED_IN'
+  | 'NOT_FOUND'
+  | 'SELF'
+  | 'BLOCKED'
+  | 'ALREADY_FRIENDS'
+  | 'REQUEST_EXISTS'
+  | 'FAILED';
+
+export type FriendRequestResult = { success: true } | { success: false; error: FriendRequestError };
+
+export type UsernameChangeResult =
+  | { success: true; username: string }
+  | { success: false; message: string; fieldErrors?: ProfileFieldError[] };
+
+// A profile found in the contact book, with the user's own entries for it
+interface ContactFriendMatch extends ContactMatch {
+  contact_phone_numbers: string[];
+}
+
+// Contacts are checked in batches. When one fails the matches found so far
+// are still returned, with the reason checking stopped (e.g. RATE_LIMITED).
+export interface ContactDiscoveryResult {
+  matches: ContactFriendMatch[];
+  complete: boolean;
+  code?: string;
+  message?: string;
+}
+
 interface FriendRequest {
   id: string;
   from_user_id: string;
   from_username: string;
   from_user_rank: string;
+  from_user_level: number;
   created_at: string;
 }
 
+interface OutgoingFriendRequest {
+  id: string;
+  to_user_id: string;
+  to_username: string;
+  to_user_rank: string;
+  to_user_level: number;
+  status: 'pending' | 'declined';
+  created_at: string;
+  responded_at?: string | null;
+}
+
+type LeaderboardMetric = 'xp' | 'bars_hit' | 'nights_out' | 'drinks';
+type LeaderboardWindow = 'week' | 'month' | 'all_time';
+
+interface LeaderboardEntry {
+  user_id: string;
+  username: string;
+  value: number;
+  rank: number;
+  previous_rank: number;
+  rank_change: number; // Positive means they climbed since the last period
+  is_self: boolean;
+}
+
+interface Leaderboard {
+  metric: LeaderboardMetric;
+  window: LeaderboardWindow;
+  period_start: string | null;
+  entries: LeaderboardEntry[];
+  loaded_at: string;
+}
+
 interface XPActivity {
   id: string;
-  type: 'visit_new_bar' | 'participate_event' | 'bring_friend' | 'complete_night_out' | 'special_achievement' | 'live_music' | 'featured_drink' | 'bar_game' | 'photo_taken' | 'shots' | 'beers' | 'beer_towers' | 'funnels' | 'shotguns' | 'pool_games' | 'dart_games' | 'drunk_scale_submission' | 'like_bar' | 'check_in';
+  type: XPActivityType;
   xpAwarded: number;
   timestamp: string;
   description: string;
 }
 
+interface DrunkScaleRating {
+  rating: number;
+  timestamp: string | null; // null for ratings recorded before timestamps were kept
+  night_key: string | null;
+}
+
 interface UserProfile {
   id: string;
   username: string;
@@ -39,15 +145,25 @@ interface UserProfile {
   xp: number;
   nights_out: number;
   bars_hit: number;
-  drunk_scale_ratings: number[];
+  drunk_scale_ratings: DrunkScaleRating[];
+  guardrail_settings?: Partial<GuardrailSettings>;
+  privacy_settings?: PrivacySettings;
+  // Which of this user's activity types friends see in their feed
+  feed_settings?: FeedSettings;
   last_night_out_date?: string;
   last_drunk_scale_date?: string;
   profile_picture?: string;
+  profile_picture_thumbnail?: string;
   friends: Friend[];
   friend_requests: FriendRequest[];
+  outgoing_requests: OutgoingFriendRequest[];
+  friend_suggestions: FriendSuggestion[];
+  blocked_users: BlockedUser[];
   xp_activities: XPActivity[];
   visited_bars: string[];
+  unlocked_achievements: UnlockedAchievement[];
   total_shots: number;
+  total_scoop_and_scores: number;
   total_beers: number;
   total_beer_towers: number;
   total_funnels: number;
@@ -60,87 +176,512 @@ interface UserProfile {
   updated_at: string;
 }
 
+type ProfileCounterField =
+  | 'nights_out'
+  | 'bars_hit'
+  | 'total_shots'
+  | 'total_scoop_and_scores'
+  | 'total_beers'
+  | 'total_beer_towers'
+  | 'total_funnels'
+  | 'total_shotguns'
+  | 'pool_games_won'
+  | 'dart_games_won'
+  | 'photos_taken';
+
+type PendingMutationStatus = 'pending' | 'syncing' | 'failed';
+
+// An XP award waiting for the server to confirm it. The server derives the
+// idempotency key from the record behind the award, so replaying it after a
+// dropped response is safe.
+interface PendingXPAward {
+  activity_type: ClientXPActivityType;
+  description: string;
+  venue_id?: string;
+  interaction_id?: string;
+  night_key?: string;
+  achievement_id?: string;
+  achievement_tier?: number;
+  expected_xp: number;
+}
+
+// Drinks logged or corrected, waiting for the server. The idempotency key is
+// generated once per action, so every retry is the same request.
+interface PendingNightStats {
+  mode: 'log' | 'correct';
+  counts: NightStatCounts;
+  idempotency_key: string;
+  night_key?: string; // Corrections only; logs go to the night the server receives them in
+}
+
+interface AwardXPOptions {
+  // The server's venue_interactions row for check-in, new bar and like XP
+  interactionId?: string;
+  nightKey?: string;
+  achievementId?: string;
+  tier?: number;
+}
+
+// A profile change waiting to be written to Supabase. Counters are stored as
+// deltas so that replaying them on top of a newer server row adds to it
+// instead of overwriting changes made from another device.
+interface PendingProfileMutation {
+  id: string;
+  kind?: 'update' | 'award_xp' | 'night_stats';
+  profile_id: string;
+  award?: PendingXPAward;
+  night_stats?: PendingNightStats;
+  // Storage files this change stops using, deleted once the server has it
+  cleanup_urls?: string[];
+  set: Partial<UserProfile>;
+  increment: Partial<Record<ProfileCounterField, number>>;
+  status: PendingMutationStatus;
+  attempts: number;
+  // Attempts the server answered with an error; network failures aren't counted
+  rejections?: number;
+  created_at: string;
+  last_attempt_at?: string;
+  last_error?: string;
+}
+
+interface UpdateProfileOptions {
+  // 'replace' writes counter values as-is, for totals recomputed from the server
+  counters?: 'increment' | 'replace';
+  // Files to remove from storage once the update is acknowledged
+  cleanupUrls?: (string | null | undefined)[];
+}
+
 interface UserProfileState {
   profile: UserProfile | null;
   isLoading: boolean;
   isUpdating: boolean;
   profileReady: boolean;
+  pendingMutations: PendingProfileMutation[];
+  // Mutations the server kept rejecting, kept for support and debugging
+  deadLetterMutations: PendingProfileMutation[];
+  isFlushing: boolean;
+  leaderboards: Record<string, Leaderboard>;
+  // Server totals for the night most recently logged to
+  tonightStats: { nightKey: string; counts: NightStatCounts } | null;
+  activityFeed: FeedItem[];
+  // Opaque position of the last item loaded, from the server's nextCursor;
+  // null once the end is reached
+  activityFeedCursor: string | null;
   loadProfile: () => Promise<void>;
-  updateProfile: (updates: Partial<UserProfile>) => Promise<void>;
+  updateProfile: (updates: Partial<UserProfile>, options?: UpdateProfileOptions) => Promise<void>;
+  flushPendingMutations: () => Promise<void>;
+  getSyncStatus: () => 'synced' | PendingMutationStatus;
   incrementNightsOut: () => Promise<void>;
   incrementBarsHit: () => Promise<void>;
   addDrunkScaleRating: (rating: number) => Promise<void>;
-  getAverageDrunkScale: () => number;
+  getAverageDrunkScale: (nightKey?: string) => number;
+  getDrunkScaleHistory: () => DrunkScaleRating[];
+  getGuardrailStatus: () => GuardrailStatus;
+  updateGuardrailSettings: (settings: Partial<GuardrailSettings>) => Promise<void>;
+  updatePrivacySettings: (settings: Partial<PrivacySettings>) => Promise<void>;
+  updateFeedSettings: (settings: Partial<FeedSettings>) => Promise<void>;
+  loadActivityFeed: (options?: { refresh?: boolean }) => Promise<void>;
+  getRank: () => RankInfo;
   canIncrementNightsOut: () => boolean;
   canSubmitDrunkScale: () => boolean;
-  setProfilePicture: (uri: string) => Promise<void>;
-  awardXP: (type: XPActivity['type'], description: string, venueId?: string) => Promise<void>;
+  setProfilePicture: (uri: string) => Promise<ProfilePictureUploadResult>;
+  changeUsername: (username: string) => Promise<UsernameChangeResult>;
+  awardXP: (type: ClientXPActivityType, description: string, venueId?: string, options?: AwardXPOptions) => Promise<void>;
   searchUserByUsername: (username: string) => Promise<Friend | null>;
+  searchUsers: (query: string, cursor?: number) => Promise<UserSearchPage | null>;
   sendFriendRequest: (username: string) => Promise<boolean>;
+  sendFriendRequestToUser: (userId: string) => Promise<FriendRequestResult>;
+  discoverContacts: (phoneNumbers: string[], defaultCountryCode?: string) => Promise<ContactDiscoveryResult | null>;
+  sendFriendRequests: (userIds: string[]) => Promise<Record<string, FriendRequestResult>>;
   acceptFriendRequest: (requestId: string) => Promise<boolean>;
   declineFriendRequest: (requestId: string) => Promise<boolean>;
+  cancelFriendRequest: (requestId: string) => Promise<boolean>;
+  removeFriend: (friendId: string) => Promise<boolean>;
+  blockUser: (userId: string) => Promise<boolean>;
+  unblockUser: (userId: string) => Promise<boolean>;
+  loadBlockedUsers: () => Promise<void>;
+  loadFriendSuggestions: () => Promise<void>;
+  loadLeaderboard: (metric: LeaderboardMetric, window: LeaderboardWindow) => Promise<Leaderboard | null>;
   loadFriendRequests: () => Promise<void>;
   loadFriends: () => Promise<void>;
   checkAndResetDrunkScaleIfNeeded: () => void;
   setProfileReady: (ready: boolean) => void;
   syncStatsFromDailyStats: () => Promise<void>;
   incrementPhotosTaken: () => Promise<void>;
+  logNightStats: (counts: NightStatCounts) => Promise<boolean>;
+  correctNightStats: (counts: NightStatCounts, nightKey?: string) => Promise<boolean>;
 }
 
-const XP_VALUES = {
-  visit_new_bar: 15,
-  participate_event: 50,
-  bring_friend: 30,
-  complete_night_out: 20,
-  special_achievement: 75,
-  live_music: 40,
-  featured_drink: 20,
-  bar_game: 35,
-  photo_taken: 10,
-  shots: 5,
-  beers: 5,
-  beer_towers: 15,
-  funnels: 10,
-  shotguns: 10,
-  pool_games: 15,
-  dart_games: 15,
-  drunk_scale_submission: 25,
-  like_bar: 5,
-  check_in: 10,
+const COUNTER_FIELDS: ProfileCounterField[] = [
+  'nights_out',
+  'bars_hit',
+  'total_shots',
+  'total_scoop_and_scores',
+  'total_beers',
+  'total_beer_towers',
+  'total_funnels',
+  'total_shotguns',
+  'pool_games_won',
+  'dart_games_won',
+  'photos_taken',
+];
+
+// Client-side collections that are not columns on the profiles table, plus
+// xp and username, which only the awardXp and updateUsername procedures write
+const LOCAL_ONLY_FIELDS: (keyof UserProfile)[] = [
+  'id',
+  'xp',
+  'username',
+  'friends',
+  'friend_requests',
+  'outgoing_requests',
+  'friend_suggestions',
+  'blocked_users',
+];
+
+// Counters the server derives from verified records (drinks from daily
+// stats, bars and nights from check-ins). They're updated locally so the UI
+// responds straight away but never sent; the next load brings the real values.
+const SERVER_DERIVED_FIELDS: (keyof UserProfile)[] = [
+  'nights_out',
+  'bars_hit',
+  'total_shots',
+  'total_scoop_and_scores',
+  'total_beers',
+  'total_beer_towers',
+  'total_funnels',
+  'total_shotguns',
+  'pool_games_won',
+  'dart_games_won',
+];
+
+
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+// SQLSTATE raised by the friendship triggers when a block exists
+const BLOCKED_RELATION_ERROR = '42501';
+// Server rejections before a mutation is moved out of the queue. Network
+// failures don't count, so offline changes are never given up on.
+const MAX_SYNC_REJECTIONS = 5;
+
+const isCounterField = (key: string): key is ProfileCounterField => {
+  return (COUNTER_FIELDS as string[]).includes(key);
+};
+
+// Unique across devices and launches, since the server remembers applied ids
+const createMutationId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+const copyProfileField = <K extends keyof UserProfile>(
+  target: Partial<UserProfile>,
+  source: Partial<UserProfile>,
+  key: K
+) => {
+  target[key] = source[key];
+};
+
+const buildPendingMutation = (
+  profile: UserProfile,
+  updates: Partial<UserProfile>,
+  options?: UpdateProfileOptions
+): PendingProfileMutation | null => {
+  const set: Partial<UserProfile> = {};
+  const increment: Partial<Record<ProfileCounterField, number>> = {};
+  const incrementCounters = options?.counters !== 'replace';
+
+  (Object.keys(updates) as (keyof UserProfile)[]).forEach(key => {
+    if (LOCAL_ONLY_FIELDS.includes(key) || SERVER_DERIVED_FIELDS.includes(key)) return;
+
+    if (incrementCounters && isCounterField(key)) {
+      const value = updates[key];
+      if (typeof value === 'number') {
+        const delta = value - (profile[key] || 0);
+        if (delta !== 0) {
+          increment[key] = delta;
+        }
+        return;
+      }
+    }
+
+    copyProfileField(set, updates, key);
+  });
+
+  if (Object.keys(set).length === 0 && Object.keys(increment).length === 0) {
+    return null;
+  }
+
+  const cleanupUrls = (options?.cleanupUrls || []).filter((url): url is string => !!url);
+
+  return {
+    id: createMutationId(),
+    kind: 'update',
+    profile_id: profile.id,
+    set,
+    increment,
+    cleanup_urls: cleanupUrls.length > 0 ? cleanupUrls : undefined,
+    status: 'pending',
+    attempts: 0,
+    created_at: new Date().toISOString(),
+  };
+};
+
+// Re-applies queued changes on top of a freshly loaded server row so a reload
+// doesn't discard edits that haven't reached Supabase yet
+const applyPendingMutations = <T extends Partial<UserProfile>>(
+  profile: T,
+  mutations: PendingProfileMutation[]
+): T => {
+  return mutations
+    .filter(mutation => mutation && mutation.profile_id === profile.id)
+    .reduce((acc, mutation) => {
+      const incremented: Partial<Record<ProfileCounterField, number>> = {};
+      COUNTER_FIELDS.forEach(field => {
+        const delta = mutation.increment[field];
+        if (delta === undefined) return;
+        const current = acc[field];
+        incremented[field] = (typeof current === 'number' ? current : 0) + delta;
+      });
+      const next: T = { ...acc, ...mutation.set, ...incremented };
+      if (mutation.award) {
+        next.xp = (acc.xp || 0) + mutation.award.expected_xp;
+      }
+      return next;
+    }, profile);
+};
+
+// XP we've shown optimistically but the server hasn't confirmed yet
+const getUnconfirmedXP = (mutations: PendingProfileMutation[], excludeId?: string): number => {
+  return mutations
+    .filter(m => m.award && m.id !== excludeId)
+    .reduce((sum, m) => sum + (m.award?.expected_xp || 0), 0);
+};
+
+const replayProfileUpdate = async (mutation: PendingProfileMutation, attemptedAt: string) => {
+  if (Object.keys(mutation.set).length > 0) {
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        ...mutation.set,
+        updated_at: attemptedAt
+      })
+      .eq('id', mutation.profile_id);
+
+    if (error) throw error;
+  }
+
+  if (Object.keys(mutation.increment).length > 0) {
+    // Counters are added on the server in one statement, and only once per
+    // mutation id, so replaying after a lost response can't count twice
+    const { error } = await supabase.rpc('apply_profile_mutation', {
+      p_mutation_id: mutation.id,
+      p_increment: mutation.increment,
+    });
+
+    if (error) throw error;
+  }
 };
 
-const isSameDay = (date1: string, date2: string): boolean => {
+// Profiles are only ever created by the createProfile procedure. Called
+// without a username it makes a placeholder until onboarding picks one.
+const createPlaceholderProfile = async (userId: string): Promise<{ profile: UserProfile | null; error: unknown }> => {
   try {
-    const d1 = new Date(date1);
-    const d2 = new Date(date2);
-    return d1.getFullYear() === d2.getFullYear() &&
-           d1.getMonth() === d2.getMonth() &&
-           d1.getDate() === d2.getDate();
-  } catch {
-    return false;
+    const result = await trpcClient.user.createProfile.mutate({});
+    if (!result.success) {
+      return { profile: null, error: result.error };
+    }
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .single();
+
+    return { profile: data, error };
+  } catch (error) {
+    return { profile: null, error };
   }
 };
 
-const hasPassedMidnight = (lastSubmissionDate?: string): boolean => {
-  if (!lastSubmissionDate) return true;
-  
+const buildNightStatsMutation = (
+  profileId: string,
+  nightStats: Omit<PendingNightStats, 'idempotency_key'>
+): PendingProfileMutation => {
+  const id = createMutationId();
+  const createdAt = new Date().toISOString();
+  return {
+    id,
+    kind: 'night_stats',
+    profile_id: profileId,
+    night_stats: { ...nightStats, idempotency_key: `${profileId}:stats:${id}` },
+    set: {},
+    increment: {},
+    status: 'pending',
+    attempts: 0,
+    created_at: createdAt,
+  };
+};
+
+const replayNightStats = async (nightStats: PendingNightStats) => {
+  const result = nightStats.mode === 'log'
+    ? await trpcClient.user.logNightStats.mutate({
+        counts: nightStats.counts,
+        idempotencyKey: nightStats.idempotency_key,
+      })
+    : await trpcClient.user.correctNightStats.mutate({
+        nightKey: nightStats.night_key,
+        counts: nightStats.counts,
+        idempotencyKey: nightStats.idempotency_key,
+      });
+
+  if (!result.success || typeof result.totalXP !== 'number') {
+    throw Object.assign(new Error(result.error || 'Failed to save night stats'), { code: result.code || 'INTERNAL' });
+  }
+
+  return { ...result, totalXP: result.totalXP };
+};
+
+// True when the server answered and refused the change, as opposed to the
+// request never getting through
+const isServerRejection = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') return false;
+  const { data, code } = error as { data?: { code?: unknown }; code?: unknown };
+  return Boolean(data?.code) || (typeof code === 'string' && code !== '');
+};
+
+interface XPAwardReplay {
+  totalXP: number;
+  accepted: boolean;
+  code?: string;
+}
+
+// Returns the authoritative XP total, or throws if the award should be retried.
+// Rejected awards still carry the total, so they're dropped rather than retried.
+const replayXPAward = async (award: PendingXPAward): Promise<XPAwardReplay> => {
+  const result = await trpcClient.user.awardXp.mutate({
+    activityType: award.activity_type,
+    description: award.description,
+    interactionId: award.interaction_id,
+    nightKey: award.night_key,
+    achievementId: award.achievement_id,
+    achievementTier: award.achievement_tier,
+  });
+
+  if (typeof result.totalXP === 'number') {
+    if (!result.success) {
+      console.warn(`XP award rejected by server (${result.code}):`, result.error);
+    }
+    return { totalXP: result.totalXP, accepted: result.success, code: result.success ? undefined : result.code };
+  }
+
+  throw Object.assign(new Error(result.error || 'Failed to award XP'), { code: result.code || 'INTERNAL' });
+};
+
+// IDs of everyone this user has blocked or been blocked by. A block in
+// either direction hides the two users from each other. Returns null when the
+// lookup fails, so callers abort rather than act as if nobody is blocked.
+const getBlockedRelationIds = async (profileId: string): Promise<Set<string> | null> => {
+  const { data, error } = await supabase
+    .from('blocked_users')
+    .select('blocker_id, blocked_id')
+    .or(`blocker_id.eq.${profileId},blocked_id.eq.${profileId}`);
+
+  if (error) {
+    console.warn('Error loading blocked users:', error);
+    return null;
+  }
+
+  return new Set(
+    (data || []).map((row: any) => row.blocker_id === profileId ? row.blocked_id : row.blocker_id)
+  );
+};
+
+const CONTACT_BATCH_SIZE = 500;
+// The most ids getProfileCards takes in one request
+const PROFILE_CARD_BATCH_SIZE = 200;
+
+// Other users' profiles only ever come through the server, which applies
+// their privacy settings. Large lists are requested in batches. Returns null
+// when any request fails.
+const fetchProfileCards = async (userIds: string[]): Promise<ProfileCard[] | null> => {
+  const ids = Array.from(new Set(userIds));
+  const cards: ProfileCard[] = [];
+
   try {
-    const lastSubmission = new Date(lastSubmissionDate);
-    const now = new Date();
-    
-    // Check if it's a different day
-    if (lastSubmission.getDate() !== now.getDate() || 
-        lastSubmission.getMonth() !== now.getMonth() || 
-        lastSubmission.getFullYear() !== now.getFullYear()) {
-      return true;
+    for (let i = 0; i < ids.length; i += PROFILE_CARD_BATCH_SIZE) {
+      const result = await trpcClient.user.getProfileCards.query({
+        userIds: ids.slice(i, i + PROFILE_CARD_BATCH_SIZE),
+      });
+      if (!result.success || !result.cards) {
+        console.warn('Error loading profile cards:', result.error);
+        return null;
+      }
+      cards.push(...result.cards);
     }
-    
-    return false;
-  } catch {
-    return true;
+    return cards;
+  } catch (error) {
+    console.warn('Error loading profile cards:', error);
+    return null;
   }
 };
 
+const cardToFriend = (card: ProfileCard, createdAt: string): Friend => ({
+  id: card.id,
+  username: card.username,
+  phone: card.phone,
+  email: card.email,
+  xp: card.xp,
+  nights_out: card.nights_out,
+  bars_hit: card.bars_hit,
+  profile_picture: card.profile_picture_thumbnail || card.profile_picture,
+  rank_title: card.rank_title,
+  level: card.level,
+  created_at: createdAt,
+});
+
+// Ratings used to be stored as bare numbers; keep them, just without a date
+const normalizeDrunkScaleRatings = (ratings: any[] | null | undefined): DrunkScaleRating[] => {
+  return (ratings || [])
+    .filter(r => r != null)
+    .map(r => typeof r === 'number'
+      ? { rating: r, timestamp: null, night_key: null }
+      : { rating: r.rating, timestamp: r.timestamp || null, night_key: r.night_key || null });
+};
+
+const getTonightKey = () => getBusinessNightKey(new Date(), getActiveTimeZone());
+
+const toProfileStats = (profile: UserProfile): ProfileStats => ({
+  totalBeers: profile.total_beers || 0,
+  totalShots: profile.total_shots || 0,
+  totalBeerTowers: profile.total_beer_towers || 0,
+  totalScoopAndScores: profile.total_scoop_and_scores || 0,
+  totalFunnels: profile.total_funnels || 0,
+  totalShotguns: profile.total_shotguns || 0,
+  poolGamesWon: profile.pool_games_won || 0,
+  dartGamesWon: profile.dart_games_won || 0,
+  barsHit: profile.bars_hit || 0,
+  nightsOut: profile.nights_out || 0,
+});
+
+// Awards run one at a time so concurrent ones (e.g. two quick check-ins)
+// each build on the previous award's activity list instead of clobbering it
+let xpAwardChain: Promise<void> = Promise.resolve();
+
+const enqueueXPAward = (task: () => Promise<void>): Promise<void> => {
+  xpAwardChain = xpAwardChain.then(task, task);
+  return xpAwardChain;
+};
+
+let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+const scheduleRetry = (attempts: number, flush: () => Promise<void>) => {
+  if (retryTimeout) clearTimeout(retryTimeout);
+  const delay = Math.min(1000 * Math.pow(2, attempts), MAX_RETRY_DELAY_MS);
+  retryTimeout = setTimeout(() => {
+    retryTimeout = null;
+    flush();
+  }, delay);
+};
+
 export const useUserProfileStore = create<UserProfileState>()(
   persist(
     (set, get) => ({
@@ -148,6 +689,13 @@ export const useUserProfileStore = create<UserProfileState>()(
       isLoading: false,
       isUpdating: false,
       profileReady: false,
+      pendingMutations: [],
+      deadLetterMutations: [],
+      isFlushing: false,
+      leaderboards: {},
+      tonightStats: null,
+      activityFeed: [],
+      activityFeedCursor: null,
       
       setProfileReady: (ready: boolean) => {
         set({ profileReady: ready });
@@ -173,11 +721,13 @@ export const useUserProfileStore = create<UserProfileState>()(
 
           console.log('🔄 Loading profile for authenticated user:', user.id);
 
-          // Use phone-first logic for profile lookup
+          // Use phone-first logic for profile lookup. Auth stores the number
+          // without the +, profiles store E.164; older rows may have either.
           let query = supabase.from('profiles').select('*');
+          const authPhone = user.phone ? normalizePhone(`+${user.phone.replace(/^\+/, '')}`) || user.phone : null;
           
-          if (user.phone) {
-            query = query.eq('phone', user.phone);
+          if (user.phone && authPhone) {
+            query = query.in('phone', authPhone !== user.phone ? [authPhone, user.phone] : [user.phone]);
           } else if (user.email) {
             query = query.eq('email', user.email);
           } else {
@@ -192,40 +742,15 @@ export const useUserProfileStore = create<UserProfileState>()(
             // If profile doesn't exist, create it
             if (error.code === 'PGRST116') {
               console.log('🔄 Profile not found, creating new profile...');
-              const newProfileData = {
-                id: user.id,
-                username: user.user_metadata?.username || `guest_${Math.floor(Math.random() * 100000)}`,
-                phone: user.phone || '',
-                email: user.email || null,
-                xp: 0,
-                nights_out: 0,
-                bars_hit: 0,
-                drunk_scale_ratings: [],
-                total_shots: 0,
-                total_beers: 0,
-                total_beer_towers: 0,
-                total_funnels: 0,
-                total_shotguns: 0,
-                pool_games_won: 0,
-                dart_games_won: 0,
-                photos_taken: 0,
-                visited_bars: [],
-                xp_activities: [],
-                has_completed_onboarding: false,
-              };
-              
-              const { data: newProfile, error: createError } = await supabase
-                .from('profiles')
-                .insert(newProfileData)
-                .select('*')
-                .single();
+              const { profile: newProfile, error: createError } = await createPlaceholderProfile(user.id);
               
               if (!createError && newProfile) {
                 console.log('✅ New profile created successfully');
                 // Load friends and friend requests
                 await Promise.all([
                   get().loadFriends(),
-                  get().loadFriendRequests()
+                  get().loadFriendRequests(),
+                  get().loadBlockedUsers()
                 ]);
 
                 set({ 
@@ -233,6 +758,9 @@ export const useUserProfileStore = create<UserProfileState>()(
                     ...newProfile,
                     friends: get().profile?.friends || [],
                     friend_requests: get().profile?.friend_requests || [],
+                    outgoing_requests: get().profile?.outgoing_requests || [],
+                    friend_suggestions: get().profile?.friend_suggestions || [],
+                    blocked_users: get().profile?.blocked_users || [],
                   }, 
                   isLoading: false,
                   profileReady: true
@@ -252,7 +780,8 @@ export const useUserProfileStore = create<UserProfileState>()(
           // Load friends and friend requests
           await Promise.all([
             get().loadFriends(),
-            get().loadFriendRequests()
+            get().loadFriendRequests(),
+            get().loadBlockedUsers()
           ]);
 
           // Sync stats from daily_stats table
@@ -260,13 +789,22 @@ export const useUserProfileStore = create<UserProfileState>()(
 
           set({ 
             profile: {
-              ...profileData,
+              ...applyPendingMutations({
+                ...profileData,
+                drunk_scale_ratings: normalizeDrunkScaleRatings(profileData.drunk_scale_ratings),
+              }, get().pendingMutations),
               friends: get().profile?.friends || [],
               friend_requests: get().profile?.friend_requests || [],
+              outgoing_requests: get().profile?.outgoing_requests || [],
+              friend_suggestions: get().profile?.friend_suggestions || [],
+              blocked_users: get().profile?.blocked_users || [],
             }, 
             isLoading: false,
             profileReady: true
           });
+
+          // Replay anything that was queued while offline
+          get().flushPendingMutations();
         } catch (error) {
           console.error('Error loading profile:', error);
           set({ isLoading: false, profile: null, profileReady: false });
@@ -289,31 +827,50 @@ export const useUserProfileStore = create<UserProfileState>()(
             return;
           }
 
-          if (!dailyStats || dailyStats.length === 0) return;
+          // A night out is any night with logged stats or a verified check-in,
+          // the same rule the server uses for nights_out
+          const { data: checkIns, error: checkInsError } = await supabase
+            .from('venue_interactions')
+            .select('night_key')
+            .eq('user_id', user.id)
+            .eq('interaction_type', 'check_in')
+            .eq('verified', true);
+
+          if (checkInsError) {
+            console.warn('Error syncing stats from daily_stats:', checkInsError);
+            return;
+          }
+
+          if ((!dailyStats || dailyStats.length === 0) && (!checkIns || checkIns.length === 0)) return;
+
+          const nights = new Set<string>((dailyStats || []).map((day: any) => day.date));
+          (checkIns || []).forEach((checkIn: any) => {
+            if (checkIn.night_key) nights.add(checkIn.night_key);
+          });
 
           // Calculate totals
-          const totals = dailyStats.reduce((acc, day) => ({
+          const totals = (dailyStats || []).reduce((acc, day) => ({
             total_beers: acc.total_beers + (day.beers || 0),
             total_shots: acc.total_shots + (day.shots || 0),
+            total_scoop_and_scores: acc.total_scoop_and_scores + (day.scoop_and_scores || 0),
             total_beer_towers: acc.total_beer_towers + (day.beer_towers || 0),
             total_funnels: acc.total_funnels + (day.funnels || 0),
             total_shotguns: acc.total_shotguns + (day.shotguns || 0),
             pool_games_won: acc.pool_games_won + (day.pool_games_won || 0),
             dart_games_won: acc.dart_games_won + (day.dart_games_won || 0),
-            nights_out: acc.nights_out + 1, // Each day with stats counts as a night out
           }), {
             total_beers: 0,
             total_shots: 0,
+            total_scoop_and_scores: 0,
             total_beer_towers: 0,
             total_funnels: 0,
             total_shotguns: 0,
             pool_games_won: 0,
             dart_games_won: 0,
-            nights_out: 0,
           });
 
-          // Update profile with synced stats
-          await get().updateProfile(totals);
+          // Update profile with synced stats - these are server totals, not local increments
+          await get().updateProfile({ ...totals, nights_out: nights.size }, { counters: 'replace' });
 
           console.log('✅ Stats synced from daily_stats table');
         } catch (error) {
@@ -321,7 +878,38 @@ export const useUserProfileStore = create<UserProfileState>()(
         }
       },
 
-      updateProfile: async (updates) => {
+      // Queued like any other change, so a dropped response is retried with
+      // the same idempotency key. Resolves false only if the server rejects it.
+      logNightStats: async (counts) => {
+        const { profile } = get();
+        if (!profile) return false;
+
+        const mutation = buildNightStatsMutation(profile.id, {
+          mode: 'log',
+          counts,
+        });
+
+        set((state) => ({ pendingMutations: [...state.pendingMutations, mutation] }));
+        await get().flushPendingMutations();
+        return !get().deadLetterMutations.some(m => m.id === mutation.id);
+      },
+
+      correctNightStats: async (counts, nightKey) => {
+        const { profile } = get();
+        if (!profile) return false;
+
+        const mutation = buildNightStatsMutation(profile.id, {
+          mode: 'correct',
+          counts,
+          night_key: nightKey,
+        });
+
+        set((state) => ({ pendingMutations: [...state.pendingMutations, mutation] }));
+        await get().flushPendingMutations();
+        return !get().deadLetterMutations.some(m => m.id === mutation.id);
+      },
+
+      updateProfile: async (updates, options) => {
         const state = get();
         if (!state.profile) {
           console.error('❌ No profile available for update');
@@ -331,87 +919,167 @@ export const useUserProfileStore = create<UserProfileState>()(
         try {
           console.log('🔄 Updating profile with:', updates);
           
-          // Update local state immediately for better UX
+          const mutation = buildPendingMutation(state.profile, updates, options);
+          
+          // Update local state immediately for better UX, and queue the change
+          // so it survives being offline or the app restarting
           set((currentState) => ({
-            profile: currentState.profile ? { ...currentState.profile, ...updates } : null
+            profile: currentState.profile ? { ...currentState.profile, ...updates } : null,
+            pendingMutations: mutation
+              ? [...currentState.pendingMutations, mutation]
+              : currentState.pendingMutations,
           }));
 
-          // Try to update in Supabase if available
-          try {
-            const { error } = await supabase
-              .from('profiles')
-              .update({
-                ...updates,
-                updated_at: new Date().toISOString()
-              })
-              .eq('id', state.profile.id);
-
-            if (error) {
-              console.warn('Error updating profile in Supabase:', error);
-              // Don't revert local changes - keep them for offline functionality
-            } else {
-              console.log('✅ Profile updated in Supabase successfully');
-            }
-          } catch (supabaseError) {
-            console.warn('Supabase not available, keeping local changes:', supabaseError);
+          await get().flushPendingMutations();
+
+          // Let achievement checks and anything else tracking totals catch up
+          const currentProfile = get().profile;
+          if (currentProfile) {
+            appEvents.emit('statsChanged', {
+              profileId: currentProfile.id,
+              stats: toProfileStats(currentProfile),
+            });
           }
+        } catch (error) {
+          console.error('Error updating profile:', error);
+        }
+      },
 
-          // Update achievements with new stats
-          if (typeof window !== 'undefined' && (window as any).__achievementStore) {
-            const achievementStore = (window as any).__achievementStore;
-            if (achievementStore?.getState) {
-              const { checkAndUpdateMultiLevelAchievements } = achievementStore.getState();
-              const currentProfile = get().profile;
-              if (currentProfile) {
-                checkAndUpdateMultiLevelAchievements({
-                  totalBeers: currentProfile.total_beers || 0,
-                  totalShots: currentProfile.total_shots || 0,
-                  totalBeerTowers: currentProfile.total_beer_towers || 0,
-                  totalScoopAndScores: 0, // Not tracked in daily stats
-                  totalFunnels: currentProfile.total_funnels || 0,
-                  totalShotguns: currentProfile.total_shotguns || 0,
-                  poolGamesWon: currentProfile.pool_games_won || 0,
-                  dartGamesWon: currentProfile.dart_games_won || 0,
-                  barsHit: currentProfile.bars_hit || 0,
-                  nightsOut: currentProfile.nights_out || 0,
-                });
+      flushPendingMutations: async () => {
+        if (get().isFlushing) return;
+        if (get().pendingMutations.length === 0) return;
+
+        set({ isFlushing: true });
+
+        const markMutation = (id: string, changes: Partial<PendingProfileMutation>) => {
+          set((currentState) => ({
+            pendingMutations: currentState.pendingMutations.map(m =>
+              m.id === id ? { ...m, ...changes } : m
+            ),
+          }));
+        };
+
+        try {
+          // Replay strictly in order and stop at the first failure so later
+          // changes never land before earlier ones. A mutation the server keeps
+          // rejecting is dead-lettered so it can't block the rest of the queue.
+          while (get().pendingMutations.length > 0) {
+            const mutation = get().pendingMutations[0];
+            const attemptedAt = new Date().toISOString();
+
+            markMutation(mutation.id, { status: 'syncing', last_attempt_at: attemptedAt });
+
+            try {
+              if (mutation.kind === 'award_xp' && mutation.award) {
+                const replay = await replayXPAward(mutation.award);
+                set((currentState) => ({
+                  profile: currentState.profile && currentState.profile.id === mutation.profile_id
+                    ? {
+                        ...currentState.profile,
+                        xp: replay.totalXP + getUnconfirmedXP(currentState.pendingMutations, mutation.id)
+                      }
+                    : currentState.profile,
+                }));
+                settleAchievementAward(mutation.profile_id, mutation.award, replay);
+              } else if (mutation.kind === 'night_stats' && mutation.night_stats) {
+                const nightStats = mutation.night_stats;
+                const result = await replayNightStats(nightStats);
+                set((currentState) => ({
+                  profile: currentState.profile && currentState.profile.id === mutation.profile_id
+                    ? {
+                        ...currentState.profile,
+                        xp: result.totalXP + getUnconfirmedXP(currentState.pendingMutations, mutation.id)
+                      }
+                    : currentState.profile,
+                  tonightStats: nightStats.mode === 'log' && result.nightKey && result.stats
+                    ? { nightKey: result.nightKey, counts: result.stats }
+                    : currentState.tonightStats,
+                }));
+
+                if (nightStats.mode === 'log' && result.nightKey) {
+                  appEvents.emit('drinksLogged', { counts: nightStats.counts, nightKey: result.nightKey });
+                  checkGuardrailLevel();
+                }
+              } else {
+                await replayProfileUpdate(mutation, attemptedAt);
+              }
+
+              set((currentState) => ({
+                pendingMutations: currentState.pendingMutations.filter(m => m.id !== mutation.id),
+              }));
+              console.log(`✅ ${mutation.kind === 'award_xp' ? 'XP award' : mutation.kind === 'night_stats' ? 'Night stats' : 'Profile update'} synced to Supabase`);
+
+              // Lifetime totals are recomputed from daily_stats on the server
+              if (mutation.kind === 'night_stats') {
+                await get().syncStatsFromDailyStats();
+              }
+
+              if (mutation.cleanup_urls) {
+                await removeProfilePictures(mutation.cleanup_urls);
+              }
+            } catch (syncError: unknown) {
+              const attempts = mutation.attempts + 1;
+              const rejections = (mutation.rejections || 0) + (isServerRejection(syncError) ? 1 : 0);
+              const lastError = syncError instanceof Error ? syncError.message : String(syncError);
+
+              if (rejections >= MAX_SYNC_REJECTIONS) {
+                console.error(`Dropping profile mutation ${mutation.id} after ${rejections} rejections:`, syncError);
+                set((currentState) => ({
+                  pendingMutations: currentState.pendingMutations.filter(m => m.id !== mutation.id),
+                  deadLetterMutations: [
+                    ...currentState.deadLetterMutations,
+                    { ...mutation, status: 'failed', attempts, rejections, last_error: lastError },
+                  ],
+                  // Take back the XP we showed for an award that will never land
+                  profile: mutation.award && currentState.profile && currentState.profile.id === mutation.profile_id
+                    ? { ...currentState.profile, xp: Math.max(0, (currentState.profile.xp || 0) - mutation.award.expected_xp) }
+                    : currentState.profile,
+                }));
+                continue;
               }
+
+              console.warn('Error syncing profile update, will retry:', syncError);
+              markMutation(mutation.id, {
+                status: 'failed',
+                attempts,
+                rejections,
+                last_error: lastError,
+              });
+              scheduleRetry(attempts, get().flushPendingMutations);
+              break;
             }
           }
-        } catch (error) {
-          console.error('Error updating profile:', error);
+        } finally {
+          set({ isFlushing: false });
         }
       },
 
+      getSyncStatus: () => {
+        const { pendingMutations } = get();
+        if (pendingMutations.length === 0) return 'synced';
+        if (pendingMutations.some(m => m.status === 'failed')) return 'failed';
+        if (pendingMutations.some(m => m.status === 'syncing')) return 'syncing';
+        return 'pending';
+      },
+
       checkAndResetDrunkScaleIfNeeded: () => {
-        // Simplified - just check if it's a new day
         const { profile } = get();
-        if (!profile) return;
+        if (!profile || !profile.last_drunk_scale_date) return;
 
-        if (hasPassedMidnight(profile.last_drunk_scale_date)) {
+        if (hasBusinessNightChanged(profile.last_drunk_scale_date, getActiveTimeZone())) {
           get().updateProfile({
             last_drunk_scale_date: undefined,
           });
         }
       },
       
+      // Starts tonight's session manually. The nightStarted handler below does
+      // the counting, and XP is awarded once the night closes.
       incrementNightsOut: async () => {
         const { profile } = get();
         if (!profile) return;
 
-        const today = new Date().toISOString();
-        
-        if (!profile.last_night_out_date || !isSameDay(profile.last_night_out_date, today)) {
-          const newNightsOut = profile.nights_out + 1;
-          
-          await get().updateProfile({
-            nights_out: newNightsOut,
-            last_night_out_date: today
-          });
-          
-          // Award XP for night out
-          await get().awardXP('complete_night_out', 'Completed a night out');
-        }
+        useNightSessionStore.getState().startNight('manual');
       },
       
       incrementBarsHit: async () => {
@@ -420,12 +1088,10 @@ export const useUserProfileStore = create<UserProfileState>()(
 
         const newBarsHit = (profile.bars_hit || 0) + 1;
         
+        // New-bar XP needs a verified check-in, so it's awarded from checkedIn
         await get().updateProfile({
           bars_hit: newBarsHit
         });
-        
-        // Award XP for bar visit
-        await get().awardXP('visit_new_bar', 'Visited a new bar');
       },
 
       incrementPhotosTaken: async () => {
@@ -434,12 +1100,10 @@ export const useUserProfileStore = create<UserProfileState>()(
 
         const newPhotosTaken = (profile.photos_taken || 0) + 1;
         
+        // Photos aren't something the server can check, so they earn no XP
         await get().updateProfile({
           photos_taken: newPhotosTaken
         });
-        
-        // Award XP for photo taken
-        await get().awardXP('photo_taken', 'Took a photo');
       },
       
       addDrunkScaleRating: async (rating: number) => {
@@ -450,33 +1114,133 @@ export const useUserProfileStore = create<UserProfileState>()(
         }
 
         const today = new Date().toISOString();
-        const currentRatings = profile.drunk_scale_ratings || [];
+        const currentRatings = normalizeDrunkScaleRatings(profile.drunk_scale_ratings);
         
         await get().updateProfile({
-          drunk_scale_ratings: [...currentRatings, rating],
+          drunk_scale_ratings: [...currentRatings, { rating, timestamp: today, night_key: getTonightKey() }],
           last_drunk_scale_date: today
         });
         
-        // Award XP for drunk scale submission
-        await get().awardXP('drunk_scale_submission', `Submitted drunk scale rating: ${rating}/5`);
+        appEvents.emit('drunkScaleSubmitted', { rating, timestamp: today });
+        checkGuardrailLevel();
       },
       
-      getAverageDrunkScale: () => {
-        const { profile } = get();
-        if (!profile || !profile.drunk_scale_ratings || profile.drunk_scale_ratings.length === 0) return 0;
+      // Average across every night, or just one night when a key is given
+      getAverageDrunkScale: (nightKey) => {
+        const ratings = get().getDrunkScaleHistory()
+          .filter(r => !nightKey || r.night_key === nightKey);
+        if (ratings.length === 0) return 0;
         
-        const sum = profile.drunk_scale_ratings.reduce((acc, rating) => acc + rating, 0);
-        return Math.round((sum / profile.drunk_scale_ratings.length) * 10) / 10;
+        const sum = ratings.reduce((acc, r) => acc + r.rating, 0);
+        return Math.round((sum / ratings.length) * 10) / 10;
+      },
+
+      getDrunkScaleHistory: () => {
+        const { profile } = get();
+        return normalizeDrunkScaleRatings(profile?.drunk_scale_ratings);
+      },
+
+      // Combines tonight's logged drinks with tonight's drunk-scale rating
+      getGuardrailStatus: () => {
+        const { profile } = get();
+        const tonightKey = getTonightKey();
+        const { tonightStats } = get();
+        const session = useNightSessionStore.getState().activeSession;
+        const drinks = tonightStats?.nightKey === tonightKey
+          ? tonightStats.counts
+          : session?.nightKey === tonightKey ? session.drinks : {};
+        const tonightRatings = get().getDrunkScaleHistory().filter(r => r.night_key === tonightKey);
+        const latestRating = tonightRatings[tonightRatings.length - 1]?.rating ?? null;
+
+        return evaluateGuardrails(drinks, latestRating, profile?.guardrail_settings);
+      },
+
+      updateGuardrailSettings: async (settings) => {
+        const { profile } = get();
+        if (!profile) return;
+
+        await get().updateProfile({
+          guardrail_settings: {
+            ...DEFAULT_GUARDRAIL_SETTINGS,
+            ...profile.guardrail_settings,
+            ...settings,
+          }
+        });
       },
       
-      awardXP: async (type, description, venueId) => {
+      updatePrivacySettings: async (settings) => {
+        const { profile } = get();
+        if (!profile) return;
+
+        await get().updateProfile({
+          privacy_settings: {
+            ...DEFAULT_PRIVACY_SETTINGS,
+            ...profile.privacy_settings,
+            ...settings,
+          }
+        });
+      },
+      
+      updateFeedSettings: async (settings) => {
+        const { profile } = get();
+        if (!profile) return;
+
+        await get().updateProfile({
+          feed_settings: {
+            ...DEFAULT_FEED_SETTINGS,
+            ...profile.feed_settings,
+            ...settings,
+          }
+        });
+      },
+
+      // Loads the first page on refresh, otherwise appends the next one
+      loadActivityFeed: async (options) => {
+        const { profile, activityFeed, activityFeedCursor } = get();
+        if (!profile) return;
+
+        const refresh = options?.refresh || activityFeed.length === 0;
+        if (!refresh && !activityFeedCursor) return;
+
+        try {
+          const result = await trpcClient.user.getActivityFeed.query({
+            cursor: refresh ? undefined : activityFeedCursor || undefined,
+          });
+
+          if (!result.success || !result.items) {
+            console.error('Error loading activity feed:', result.error);
+            return;
+          }
+
+          set((state) => {
+            const items = refresh ? result.items : [...state.activityFeed, ...result.items];
+            const seen = new Set<string>();
+            return {
+              activityFeed: items.filter(item => !seen.has(item.id) && !!seen.add(item.id)),
+              activityFeedCursor: result.nextCursor ?? null,
+            };
+          });
+        } catch (error) {
+          console.error('Error loading activity feed:', error);
+        }
+      },
+
+      getRank: () => {
+        const { profile } = get();
+        return getRankForXP(profile?.xp || 0);
+      },
+      
+      awardXP: (type, description, venueId, options) => enqueueXPAward(async () => {
         const { profile } = get();
         if (!profile) {
           console.warn('❌ No profile available for XP award');
           return;
         }
 
-        const xpAmount = XP_VALUES[type];
+        const achievementTier = options?.achievementId && options.tier
+          ? getAchievementTier(options.achievementId, options.tier)
+          : undefined;
+        const xpAmount = achievementTier ? achievementTier.xpReward : XP_VALUES[type];
         if (!xpAmount) {
           console.warn('Invalid XP type:', type);
           return;
@@ -497,7 +1261,6 @@ export const useUserProfileStore = create<UserProfileState>()(
         const currentXPActivities = profile.xp_activities || [];
         
         let updates: Partial<UserProfile> = {
-          xp: (profile.xp || 0) + xpAmount,
           xp_activities: [...currentXPActivities, newActivity],
         };
         
@@ -508,27 +1271,55 @@ export const useUserProfileStore = create<UserProfileState>()(
               updates.bars_hit = (profile.bars_hit || 0) + 1;
             }
             break;
-          case 'photo_taken':
-            updates.photos_taken = (profile.photos_taken || 0) + 1;
-            break;
-          case 'pool_games':
-            updates.pool_games_won = (profile.pool_games_won || 0) + 1;
-            break;
-          case 'dart_games':
-            updates.dart_games_won = (profile.dart_games_won || 0) + 1;
-            break;
         }
         
+        // The server owns the XP total. Show the expected amount straight away
+        // and let the award mutation replace it with the authoritative value.
+        const awardMutation: PendingProfileMutation = {
+          id: createMutationId(),
+          kind: 'award_xp',
+          profile_id: profile.id,
+          award: {
+            activity_type: type,
+            description,
+            venue_id: venueId,
+            interaction_id: options?.interactionId,
+            night_key: options?.nightKey,
+            achievement_id: options?.achievementId,
+            achievement_tier: options?.tier,
+            expected_xp: xpAmount,
+          },
+          set: {},
+          increment: {},
+          status: 'pending',
+          attempts: 0,
+          created_at: new Date().toISOString(),
+        };
+        
+        set((currentState) => ({
+          profile: currentState.profile
+            ? { ...currentState.profile, xp: (currentState.profile.xp || 0) + xpAmount }
+            : null,
+          pendingMutations: [...currentState.pendingMutations, awardMutation],
+        }));
+        
+        appEvents.emit('xpAwarded', {
+          type,
+          amount: xpAmount,
+          totalXP: get().profile?.xp || 0,
+          description,
+          venueId,
+        });
+        
         await get().updateProfile(updates);
-        console.log(`✅ XP awarded successfully. New total: ${(profile.xp || 0) + xpAmount}`);
-      },
+        console.log(`✅ XP awarded. New total: ${get().profile?.xp}`);
+      }),
       
       canIncrementNightsOut: () => {
         const { profile } = get();
         if (!profile) return true;
         
-        const today = new Date().toISOString();
-        return !profile.last_night_out_date || !isSameDay(profile.last_night_out_date, today);
+        return hasBusinessNightChanged(profile.last_night_out_date, getActiveTimeZone());
       },
 
       canSubmitDrunkScale: () => {
@@ -538,92 +1329,233 @@ export const useUserProfileStore = create<UserProfileState>()(
         // Check if we need to reset first
         get().checkAndResetDrunkScaleIfNeeded();
         
-        // Use 24-hour check for drunk scale
-        return hasPassedMidnight(profile.last_drunk_scale_date);
+        // One rating per business night
+        return hasBusinessNightChanged(profile.last_drunk_scale_date, getActiveTimeZone());
       },
 
       setProfilePicture: async (uri: string) => {
+        const { profile } = get();
+        if (!profile) {
+          return { success: false, error: 'UPLOAD_FAILED', message: 'No profile available' };
+        }
+
+        const result = await uploadProfilePicture(profile.id, uri);
+        if (!result.success) {
+          console.warn('Profile picture rejected:', result.error);
+          return result;
+        }
+
+        // The old files are removed when this update is acknowledged, however
+        // long that takes, so nothing points at a deleted picture
+        await get().updateProfile({
+          profile_picture: result.url,
+          profile_picture_thumbnail: result.thumbnailUrl,
+        }, {
+          cleanupUrls: [profile.profile_picture, profile.profile_picture_thumbnail],
+        });
+
+        console.log('✅ Profile picture updated successfully');
+        return result;
+      },
+
+      // Needs a connection: the server checks the name is valid and free
+      // before anything changes locally
+      changeUsername: async (username: string): Promise<UsernameChangeResult> => {
+        const { profile } = get();
+        if (!profile) return { success: false, message: 'No profile available' };
+
         try {
-          // For now, just store the URI directly
-          // In a real app, you'd upload to Supabase Storage first
-          await get().updateProfile({ profile_picture: uri });
-          console.log('✅ Profile picture updated successfully');
+          const result = await trpcClient.user.updateUsername.mutate({ username });
+
+          if (!result.success || !result.username) {
+            return {
+              success: false,
+              message: result.message,
+              fieldErrors: 'fieldErrors' in result ? result.fieldErrors : undefined,
+            };
+          }
+
+          const updatedUsername = result.username;
+          set((state) => ({
+            profile: state.profile ? { ...state.profile, username: updatedUsername } : null
+          }));
+          console.log('✅ Username updated:', updatedUsername);
+          return { success: true, username: updatedUsername };
         } catch (error) {
-          console.error('Error setting profile picture:', error);
+          console.error('Error updating username:', error);
+          return { success: false, message: 'Failed to update username' };
         }
       },
 
       searchUserByUsername: async (username: string): Promise<Friend | null> => {
+        if (!username.trim()) return null;
+
         try {
-          const { data, error } = await supabase
-            .from('profiles')
-            .select('id, username, phone, email, xp, nights_out, bars_hit, created_at')
-            .eq('username', username)
-            .single();
+          // Blocked users never come back from the server
+          const result = await trpcClient.user.searchUsers.query({ query: username.trim(), limit: 1 });
 
-          if (error || !data) {
+          if (!result.success || !result.results) {
+            console.error('Error searching user:', result.error);
             return null;
           }
 
-          return {
-            id: data.id,
-            username: data.username,
-            phone: data.phone,
-            email: data.email,
-            xp: data.xp,
-            nights_out: data.nights_out,
-            bars_hit: data.bars_hit,
-            rank_title: 'Bar Explorer',
-            created_at: data.created_at,
-          };
+          const match = result.results.find(candidate => candidate.match === 'exact');
+          return match ? cardToFriend(match, match.created_at) : null;
         } catch (error) {
           console.error('Error searching user:', error);
           return null;
         }
       },
 
+      // Ranked prefix-then-fuzzy search. Pass the previous page's nextCursor
+      // to load more.
+      searchUsers: async (query: string, cursor?: number): Promise<UserSearchPage | null> => {
+        if (!query.trim()) return { results: [], nextCursor: null };
+
+        try {
+          const result = await trpcClient.user.searchUsers.query({ query: query.trim(), cursor });
+
+          if (!result.success || !result.results) {
+            console.error('Error searching users:', result.error);
+            return null;
+          }
+
+          return { results: result.results, nextCursor: result.nextCursor ?? null };
+        } catch (error) {
+          console.error('Error searching users:', error);
+          return null;
+        }
+      },
+
       sendFriendRequest: async (username: string): Promise<boolean> => {
+        const targetUser = await get().searchUserByUsername(username);
+        if (!targetUser) return false;
+
+        const result = await get().sendFriendRequestToUser(targetUser.id);
+        return result.success;
+      },
+
+      sendFriendRequestToUser: async (userId: string): Promise<FriendRequestResult> => {
         const { profile } = get();
-        if (!profile) return false;
+        if (!profile) return { success: false, error: 'NOT_SIGNED_IN' };
+        if (userId === profile.id) return { success: false, error: 'SELF' };
 
         try {
-          // First find the user by username
-          const targetUser = await get().searchUserByUsername(username);
-          if (!targetUser) return false;
+          // Never allow requests across a block, in either direction
+          const blockedIds = await getBlockedRelationIds(profile.id);
+          if (!blockedIds) return { success: false, error: 'FAILED' };
+          if (blockedIds.has(userId)) return { success: false, error: 'BLOCKED' };
+
+          const targetCards = await fetchProfileCards([userId]);
+          if (!targetCards) return { success: false, error: 'FAILED' };
+          if (targetCards.length === 0) return { success: false, error: 'NOT_FOUND' };
 
           // Check if already friends
           const { data: existingFriend } = await supabase
             .from('friends')
             .select('id')
-            .or(`and(user_id.eq.${profile.id},friend_id.eq.${targetUser.id}),and(user_id.eq.${targetUser.id},friend_id.eq.${profile.id})`)
-            .single();
+            .or(`and(user_id.eq.${profile.id},friend_id.eq.${userId}),and(user_id.eq.${userId},friend_id.eq.${profile.id})`)
+            .limit(1);
 
-          if (existingFriend) return false;
+          if (existingFriend && existingFriend.length > 0) return { success: false, error: 'ALREADY_FRIENDS' };
 
-          // Check if request already exists
+          // Only a request still waiting for an answer stands in the way
           const { data: existingRequest } = await supabase
             .from('friend_requests')
             .select('id')
-            .or(`and(from_user_id.eq.${profile.id},to_user_id.eq.${targetUser.id}),and(from_user_id.eq.${targetUser.id},to_user_id.eq.${profile.id})`)
-            .single();
+            .eq('status', 'pending')
+            .or(`and(from_user_id.eq.${profile.id},to_user_id.eq.${userId}),and(from_user_id.eq.${userId},to_user_id.eq.${profile.id})`)
+            .limit(1);
+
+          if (existingRequest && existingRequest.length > 0) return { success: false, error: 'REQUEST_EXISTS' };
 
-          if (existingRequest) return false;
+          // Answered requests from before (a friendship since ended, or one
+          // kept from older versions that stored declines) make way for this one
+          const { error: staleError } = await supabase
+            .from('friend_requests')
+            .delete()
+            .eq('from_user_id', profile.id)
+            .eq('to_user_id', userId)
+            .neq('status', 'pending');
+
+          if (staleError) {
+            console.error('Error clearing old friend request:', staleError);
+            return { success: false, error: 'FAILED' };
+          }
 
           // Send friend request
           const { error } = await supabase
             .from('friend_requests')
             .insert({
               from_user_id: profile.id,
-              to_user_id: targetUser.id,
+              to_user_id: userId,
             });
 
-          return !error;
+          if (error) {
+            // The database refuses requests across a block we didn't know about
+            if (error.code === BLOCKED_RELATION_ERROR) return { success: false, error: 'BLOCKED' };
+            // They sent us one at the same moment
+            if (error.code === '23505') return { success: false, error: 'REQUEST_EXISTS' };
+            console.error('Error sending friend request:', error);
+            return { success: false, error: 'FAILED' };
+          }
+
+          await get().loadFriendRequests();
+          return { success: true };
         } catch (error) {
           console.error('Error sending friend request:', error);
-          return false;
+          return { success: false, error: 'FAILED' };
         }
       },
 
+      // Numbers are normalized and hashed here; only hashes are sent
+      discoverContacts: async (phoneNumbers, defaultCountryCode) => {
+        const { profile } = get();
+        if (!profile) return null;
+
+        const matches: ContactFriendMatch[] = [];
+
+        try {
+          const hashed = await hashContactPhones(phoneNumbers, defaultCountryCode);
+          const hashes = Array.from(hashed.keys());
+
+          for (let i = 0; i < hashes.length; i += CONTACT_BATCH_SIZE) {
+            const batch = hashes.slice(i, i + CONTACT_BATCH_SIZE);
+            const result = await trpcClient.user.discoverContacts.mutate({ phoneHashes: batch });
+
+            if (!result.success || !result.matches) {
+              console.error('Error discovering contacts:', result.error);
+              return {
+                matches,
+                complete: false,
+                code: 'code' in result ? result.code : undefined,
+                message: result.error || result.message,
+              };
+            }
+
+            result.matches.forEach(match => {
+              matches.push({ ...match, contact_phone_numbers: hashed.get(batch[match.contact_index]) || [] });
+            });
+          }
+
+          return { matches, complete: true };
+        } catch (error) {
+          console.error('Error discovering contacts:', error);
+          return { matches, complete: false, message: 'Failed to find contacts' };
+        }
+      },
+
+      // Sent one at a time so each gets the same checks as a single request
+      sendFriendRequests: async (userIds) => {
+        const results: Record<string, FriendRequestResult> = {};
+
+        for (const userId of Array.from(new Set(userIds))) {
+          results[userId] = await get().sendFriendRequestToUser(userId);
+        }
+
+        return results;
+      },
+
       acceptFriendRequest: async (requestId: string): Promise<boolean> => {
         const { profile } = get();
         if (!profile) return false;
@@ -675,9 +1607,10 @@ export const useUserProfileStore = create<UserProfileState>()(
         if (!profile) return false;
 
         try {
+          // Removed rather than kept as declined, so either user can ask again later
           const { error } = await supabase
             .from('friend_requests')
-            .update({ status: 'declined', responded_at: new Date().toISOString() })
+            .delete()
             .eq('id', requestId)
             .eq('to_user_id', profile.id);
 
@@ -691,39 +1624,240 @@ export const useUserProfileStore = create<UserProfileState>()(
         }
       },
 
-      loadFriendRequests: async () => {
+      cancelFriendRequest: async (requestId: string): Promise<boolean> => {
         const { profile } = get();
-        if (!profile) return;
+        if (!profile) return false;
 
         try {
-          const { data, error } = await supabase
+          const { error } = await supabase
             .from('friend_requests')
-            .select(`
-              id,
-              from_user_id,
-              created_at,
-              from_user:profiles!friend_requests_from_user_id_fkey(username, xp)
-            `)
-            .eq('to_user_id', profile.id)
+            .delete()
+            .eq('id', requestId)
+            .eq('from_user_id', profile.id)
             .eq('status', 'pending');
 
           if (error) {
-            console.error('Error loading friend requests:', error);
+            console.error('Error cancelling friend request:', error);
+            return false;
+          }
+
+          await get().loadFriendRequests();
+          return true;
+        } catch (error) {
+          console.error('Error cancelling friend request:', error);
+          return false;
+        }
+      },
+
+      removeFriend: async (friendId: string): Promise<boolean> => {
+        const { profile } = get();
+        if (!profile) return false;
+
+        try {
+          // Friendships are stored in both directions, so remove both rows
+          const { error } = await supabase
+            .from('friends')
+            .delete()
+            .or(`and(user_id.eq.${profile.id},friend_id.eq.${friendId}),and(user_id.eq.${friendId},friend_id.eq.${profile.id})`);
+
+          if (error) {
+            console.error('Error removing friend:', error);
+            return false;
+          }
+
+          // The accepted request goes too, so a new one can be sent later
+          const { error: requestError } = await supabase
+            .from('friend_requests')
+            .delete()
+            .or(`and(from_user_id.eq.${profile.id},to_user_id.eq.${friendId}),and(from_user_id.eq.${friendId},to_user_id.eq.${profile.id})`);
+
+          if (requestError) {
+            console.warn('Error removing old friend request:', requestError);
+          }
+
+          await Promise.all([
+            get().loadFriends(),
+            get().loadFriendRequests()
+          ]);
+          return true;
+        } catch (error) {
+          console.error('Error removing friend:', error);
+          return false;
+        }
+      },
+
+      blockUser: async (userId: string): Promise<boolean> => {
+        const { profile } = get();
+        if (!profile || !userId || userId === profile.id) return false;
+
+        try {
+          const { error } = await supabase
+            .from('blocked_users')
+            .upsert(
+              { blocker_id: profile.id, blocked_id: userId },
+              { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true }
+            );
+
+          if (error) {
+            console.error('Error blocking user:', error);
+            return false;
+          }
+
+          // A block ends the friendship and any pending requests between the two users
+          const [{ error: friendError }, { error: requestError }] = await Promise.all([
+            supabase
+              .from('friends')
+              .delete()
+              .or(`and(user_id.eq.${profile.id},friend_id.eq.${userId}),and(user_id.eq.${userId},friend_id.eq.${profile.id})`),
+            supabase
+              .from('friend_requests')
+              .delete()
+              .eq('status', 'pending')
+              .or(`and(from_user_id.eq.${profile.id},to_user_id.eq.${userId}),and(from_user_id.eq.${userId},to_user_id.eq.${profile.id})`),
+          ]);
+
+          if (friendError || requestError) {
+            console.warn('Error cleaning up after block:', friendError || requestError);
+          }
+
+          await Promise.all([
+            get().loadFriends(),
+            get().loadFriendRequests(),
+            get().loadBlockedUsers()
+          ]);
+
+          return true;
+        } catch (error) {
+          console.error('Error blocking user:', error);
+          return false;
+        }
+      },
+
+      unblockUser: async (userId: string): Promise<boolean> => {
+        const { profile } = get();
+        if (!profile) return false;
+
+        try {
+          const { error } = await supabase
+            .from('blocked_users')
+            .delete()
+            .eq('blocker_id', profile.id)
+            .eq('blocked_id', userId);
+
+          if (error) {
+            console.error('Error unblocking user:', error);
+            return false;
+          }
+
+          await get().loadBlockedUsers();
+          return true;
+        } catch (error) {
+          console.error('Error unblocking user:', error);
+          return false;
+        }
+      },
+
+      loadBlockedUsers: async () => {
+        const { profile } = get();
+        if (!profile) return;
+
+        try {
+          const result = await trpcClient.user.getBlockedUsers.query();
+
+          if (!result.success || !result.blockedUsers) {
+            console.error('Error loading blocked users:', result.error);
             return;
           }
 
-          const friendRequests: FriendRequest[] = (data || []).map((request: any) => ({
-            id: request.id,
-            from_user_id: request.from_user_id,
-            from_username: request.from_user?.username || 'Unknown',
-            from_user_rank: 'Bar Explorer',
-            created_at: request.created_at,
+          const blockedUsers = result.blockedUsers;
+          set((state) => ({
+            profile: state.profile ? {
+              ...state.profile,
+              blocked_users: blockedUsers
+            } : null
           }));
+        } catch (error) {
+          console.error('Error loading blocked users:', error);
+        }
+      },
+
+      loadFriendRequests: async () => {
+        const { profile } = get();
+        if (!profile) return;
+
+        try {
+          const [incoming, outgoing] = await Promise.all([
+            supabase
+              .from('friend_requests')
+              .select(`
+                id,
+                from_user_id,
+                created_at
+              `)
+              .eq('to_user_id', profile.id)
+              .eq('status', 'pending'),
+            supabase
+              .from('friend_requests')
+              .select(`
+                id,
+                to_user_id,
+                status,
+                created_at,
+                responded_at
+              `)
+              .eq('from_user_id', profile.id)
+              .in('status', ['pending', 'declined'])
+              .order('created_at', { ascending: false }),
+          ]);
+
+          if (incoming.error) {
+            console.error('Error loading friend requests:', incoming.error);
+            return;
+          }
+
+          if (outgoing.error) {
+            console.error('Error loading outgoing friend requests:', outgoing.error);
+          }
+
+          // Names and ranks come from the server, which applies privacy and blocks
+          const cards = await fetchProfileCards([
+            ...(incoming.data || []).map((request: any) => request.from_user_id),
+            ...(outgoing.data || []).map((request: any) => request.to_user_id),
+          ]);
+          const cardsById = new Map((cards || []).map(card => [card.id, card]));
+          const defaultRank = getRankForXP(0);
+
+          const friendRequests: FriendRequest[] = (incoming.data || []).map((request: any) => {
+            const card = cardsById.get(request.from_user_id);
+            return {
+              id: request.id,
+              from_user_id: request.from_user_id,
+              from_username: card?.username || 'Unknown',
+              from_user_rank: card?.rank_title || defaultRank.title,
+              from_user_level: card?.level || defaultRank.level,
+              created_at: request.created_at,
+            };
+          });
+
+          const outgoingRequests: OutgoingFriendRequest[] = (outgoing.data || []).map((request: any) => {
+            const card = cardsById.get(request.to_user_id);
+            return {
+              id: request.id,
+              to_user_id: request.to_user_id,
+              to_username: card?.username || 'Unknown',
+              to_user_rank: card?.rank_title || defaultRank.title,
+              to_user_level: card?.level || defaultRank.level,
+              status: request.status,
+              created_at: request.created_at,
+              responded_at: request.responded_at,
+            };
+          });
 
           set((state) => ({
             profile: state.profile ? {
               ...state.profile,
-              friend_requests: friendRequests
+              friend_requests: friendRequests,
+              outgoing_requests: outgoing.error ? (state.profile.outgoing_requests || []) : outgoingRequests
             } : null
           }));
         } catch (error) {
@@ -731,6 +1865,66 @@ export const useUserProfileStore = create<UserProfileState>()(
         }
       },
 
+      // "People you may know": friends of friends and anyone who has been to
+      // the same bars, ranked by mutual friends and then shared bars
+      loadFriendSuggestions: async () => {
+        const { profile } = get();
+        if (!profile) return;
+
+        try {
+          const result = await trpcClient.user.getFriendSuggestions.query();
+
+          if (!result.success || !result.suggestions) {
+            console.error('Error loading friend suggestions:', result.error);
+            return;
+          }
+
+          const suggestions = result.suggestions;
+          set((state) => ({
+            profile: state.profile ? {
+              ...state.profile,
+              friend_suggestions: suggestions
+            } : null
+          }));
+        } catch (error) {
+          console.error('Error loading friend suggestions:', error);
+        }
+      },
+
+      loadLeaderboard: async (metric, window) => {
+        const { profile } = get();
+        if (!profile) return null;
+
+        try {
+          const result = await trpcClient.user.getLeaderboard.query({ metric, window });
+
+          if (!result.success || !result.entries) {
+            console.error('Error loading leaderboard:', result.error);
+            return get().leaderboards[`${metric}:${window}`] || null;
+          }
+
+          const leaderboard: Leaderboard = {
+            metric,
+            window,
+            period_start: result.period_start ?? null,
+            entries: result.entries,
+            loaded_at: new Date().toISOString(),
+          };
+
+          set((state) => ({
+            leaderboards: {
+              ...state.leaderboards,
+              [`${metric}:${window}`]: leaderboard,
+            }
+          }));
+
+          return leaderboard;
+        } catch (error) {
+          console.error('Error loading leaderboard:', error);
+          return get().leaderboards[`${metric}:${window}`] || null;
+        }
+      },
+
       loadFriends: async () => {
         const { profile } = get();
         if (!profile) return;
@@ -738,12 +1932,7 @@ export const useUserProfileStore = create<UserProfileState>()(
         try {
           const { data, error } = await supabase
             .from('friends')
-            .select(`
-              id,
-              friend_id,
-              created_at,
-              friend:profiles!friends_friend_id_fkey(id, username, phone, email, xp, nights_out, bars_hit, created_at)
-            `)
+            .select('id, friend_id, created_at')
             .eq('user_id', profile.id);
 
           if (error) {
@@ -751,20 +1940,13 @@ export const useUserProfileStore = create<UserProfileState>()(
             return;
           }
 
-          const friends: Friend[] = (data || []).map((friendship: any) => {
-            const friend = friendship.friend;
-            return {
-              id: friend?.id || '',
-              username: friend?.username || 'Unknown',
-              phone: friend?.phone || '',
-              email: friend?.email || null,
-              xp: friend?.xp || 0,
-              nights_out: friend?.nights_out || 0,
-              bars_hit: friend?.bars_hit || 0,
-              rank_title: 'Bar Explorer',
-              created_at: friendship.created_at,
-            };
-          });
+          const cards = await fetchProfileCards((data || []).map((friendship: any) => friendship.friend_id));
+          if (!cards) return;
+
+          const cardsById = new Map(cards.map(card => [card.id, card]));
+          const friends: Friend[] = (data || [])
+            .filter((friendship: any) => cardsById.has(friendship.friend_id))
+            .map((friendship: any) => cardToFriend(cardsById.get(friendship.friend_id)!, friendship.created_at));
 
           set((state) => ({
             profile: state.profile ? {
@@ -780,6 +1962,19 @@ export const useUserProfileStore = create<UserProfileState>()(
     {
       name: 'user-profile-storage',
       storage: createJSONStorage(() => AsyncStorage),
+      version: 1,
+      migrate: (persistedState: any, version) => {
+        if (version === 0 && persistedState?.profile) {
+          return {
+            ...persistedState,
+            profile: {
+              ...persistedState.profile,
+              drunk_scale_ratings: normalizeDrunkScaleRatings(persistedState.profile.drunk_scale_ratings),
+            },
+          };
+        }
+        return persistedState;
+      },
       partialize: (state) => ({
         // Only persist non-sensitive data
         profile: state.profile ? {
@@ -790,6 +1985,7 @@ export const useUserProfileStore = create<UserProfileState>()(
           nights_out: state.profile.nights_out,
           bars_hit: state.profile.bars_hit,
           total_shots: state.profile.total_shots,
+          total_scoop_and_scores: state.profile.total_scoop_and_scores,
           total_beers: state.profile.total_beers,
           total_beer_towers: state.profile.total_beer_towers,
           total_funnels: state.profile.total_funnels,
@@ -798,20 +1994,202 @@ export const useUserProfileStore = create<UserProfileState>()(
           dart_games_won: state.profile.dart_games_won,
           xp_activities: state.profile.xp_activities,
           visited_bars: state.profile.visited_bars,
+          unlocked_achievements: state.profile.unlocked_achievements,
           has_completed_onboarding: state.profile.has_completed_onboarding,
           created_at: state.profile.created_at,
           updated_at: state.profile.updated_at,
           drunk_scale_ratings: state.profile.drunk_scale_ratings,
           last_drunk_scale_date: state.profile.last_drunk_scale_date,
+          guardrail_settings: state.profile.guardrail_settings,
+          privacy_settings: state.profile.privacy_settings,
+          feed_settings: state.profile.feed_settings,
           profile_picture: state.profile.profile_picture,
+          profile_picture_thumbnail: state.profile.profile_picture_thumbnail,
           photos_taken: state.profile.photos_taken,
         } : null,
+        pendingMutations: state.pendingMutations.map(m =>
+          // A sync interrupted by the app closing must be retried on next launch
+          m.status === 'syncing' ? { ...m, status: 'pending' as const } : m
+        ),
+        deadLetterMutations: state.deadLetterMutations,
       }),
     }
   )
 );
 
-// Store reference for cross-store access
-if (typeof window !== 'undefined') {
-  (window as any).__userProfileStore = useUserProfileStore;
-}
\ No newline at end of file
+// Emit a level-up whenever the signed-in user's XP crosses a rank threshold,
+// whether from a local award or a server total that caught up
+useUserProfileStore.subscribe((state, prevState) => {
+  const current = state.profile;
+  const previous = prevState.profile;
+  if (!current || !previous || current.id !== previous.id) return;
+  if ((current.xp || 0) <= (previous.xp || 0)) return;
+
+  const previousRank = getRankForXP(previous.xp || 0);
+  const currentRank = getRankForXP(current.xp || 0);
+  if (currentRank.level <= previousRank.level) return;
+
+  console.log(`🎉 Level up! ${previousRank.title} → ${currentRank.title}`);
+  appEvents.emit('levelUp', { previous: previousRank, current: currentRank });
+});
+
+// XP for venue activity. Each event is handled on its own - nothing is
+// debounced away when check-ins arrive close together.
+appEvents.on('checkedIn', ({ venueId, isNewBar, interactionId }) => {
+  const { awardXP, profile } = useUserProfileStore.getState();
+  if (!profile) return;
+
+  awardXP('check_in', 'Checked in at venue', venueId, { interactionId });
+
+  if (isNewBar || !profile.visited_bars?.includes(venueId)) {
+    awardXP('visit_new_bar', 'Visited a new bar', venueId, { interactionId });
+  }
+});
+
+// Tiers the server said weren't reached yet, with the local value of their
+// metric at the time. They're asked for again once that value moves, e.g.
+// after the stats that reach the threshold have synced.
+const deferredAchievementTiers = new Map<string, number>();
+
+const getAchievementKey = (achievementId: string, tier: number) => `${achievementId}:${tier}`;
+
+// Tiers whose XP award is still queued, treated as unlocked so the stats
+// change the award itself causes doesn't request them again
+const getQueuedAchievementTiers = (mutations: PendingProfileMutation[]): UnlockedAchievement[] => {
+  return mutations.flatMap(m =>
+    m.kind === 'award_xp' && m.award?.achievement_id && m.award.achievement_tier
+      ? [{ achievement_id: m.award.achievement_id, tier: m.award.achievement_tier, unlocked_at: m.created_at }]
+      : []
+  );
+};
+
+// A tier is only recorded as unlocked once the server has granted its award
+const settleAchievementAward = (profileId: string, award: PendingXPAward, replay: XPAwardReplay) => {
+  if (!award.achievement_id || !award.achievement_tier) return;
+
+  const achievement = getAchievement(award.achievement_id);
+  const tier = getAchievementTier(award.achievement_id, award.achievement_tier);
+  if (!achievement || !tier) return;
+
+  const key = getAchievementKey(achievement.id, tier.tier);
+  const { profile } = useUserProfileStore.getState();
+  if (!profile || profile.id !== profileId) return;
+
+  if (!replay.accepted) {
+    if (replay.code === 'ACHIEVEMENT_NOT_EARNED') {
+      deferredAchievementTiers.set(key, toProfileStats(profile)[achievement.metric] || 0);
+      console.log(`⚠️ ${achievement.title} (tier ${tier.tier}) not confirmed by server yet`);
+    }
+    return;
+  }
+
+  deferredAchievementTiers.delete(key);
+
+  const alreadyUnlocked = (profile.unlocked_achievements || [])
+    .some(u => u.achievement_id === achievement.id && u.tier === tier.tier);
+  if (alreadyUnlocked) return;
+
+  const unlockedAt = new Date().toISOString();
+  const unlockedAchievements: UnlockedAchievement[] = [
+    ...(profile.unlocked_achievements || []),
+    { achievement_id: achievement.id, tier: tier.tier, unlocked_at: unlockedAt },
+  ];
+
+  useUserProfileStore.setState((state) => ({
+    profile: state.profile ? { ...state.profile, unlocked_achievements: unlockedAchievements } : null
+  }));
+  useUserProfileStore.getState().updateProfile({ unlocked_achievements: unlockedAchievements });
+
+  console.log(`🏆 Achievement unlocked: ${achievement.title} (tier ${tier.tier})`);
+  appEvents.emit('achievementUnlocked', {
+    achievementId: achievement.id,
+    title: achievement.title,
+    tier: tier.tier,
+    badge: tier.badge,
+    xpReward: tier.xpReward,
+    unlockedAt,
+  });
+};
+
+// Achievement tiers are requested as totals change. The server checks each
+// one against its own records before the tier is unlocked.
+appEvents.on('statsChanged', ({ profileId, stats }) => {
+  const { profile, pendingMutations } = useUserProfileStore.getState();
+  if (!profile || profile.id !== profileId) return;
+
+  const unlocks = evaluateAchievements(stats, [
+    ...(profile.unlocked_achievements || []),
+    ...getQueuedAchievementTiers(pendingMutations),
+  ]).filter(({ achievement, tier }) => {
+    const deferredAt = deferredAchievementTiers.get(getAchievementKey(achievement.id, tier.tier));
+    return deferredAt !== (stats[achievement.metric] || 0);
+  });
+
+  unlocks.forEach(({ achievement, tier }) => {
+    deferredAchievementTiers.delete(getAchievementKey(achievement.id, tier.tier));
+    useUserProfileStore.getState().awardXP(
+      'special_achievement',
+      `Unlocked ${achievement.title} (tier ${tier.tier})`,
+      undefined,
+      { achievementId: achievement.id, tier: tier.tier }
+    );
+  });
+});
+
+// Raise a prompt whenever tonight's guardrail level goes up
+let lastGuardrailLevel: { nightKey: string; level: GuardrailStatus['level'] } | null = null;
+
+const GUARDRAIL_SEVERITY: Record<GuardrailStatus['level'], number> = {
+  ok: 0,
+  slow_down: 1,
+  get_home_safe: 2,
+};
+
+const checkGuardrailLevel = () => {
+  const status = useUserProfileStore.getState().getGuardrailStatus();
+  const nightKey = getTonightKey();
+  const previousLevel = lastGuardrailLevel?.nightKey === nightKey ? lastGuardrailLevel.level : 'ok';
+
+  lastGuardrailLevel = { nightKey, level: status.level };
+
+  if (GUARDRAIL_SEVERITY[status.level] > GUARDRAIL_SEVERITY[previousLevel]) {
+    appEvents.emit('guardrailTriggered', status);
+  }
+};
+
+appEvents.on('nightStarted', () => {
+  const { profile, canIncrementNightsOut, updateProfile } = useUserProfileStore.getState();
+  if (!profile || !canIncrementNightsOut()) return;
+
+  updateProfile({
+    nights_out: (profile.nights_out || 0) + 1,
+    last_night_out_date: new Date().toISOString()
+  });
+});
+
+// The server only pays out for nights with a verified check-in
+appEvents.on('nightCompleted', ({ nightKey, venueCount }) => {
+  const { awardXP, profile } = useUserProfileStore.getState();
+  if (!profile || venueCount === 0) return;
+
+  awardXP(
+    'complete_night_out',
+    `Completed a night out at ${venueCount} bar${venueCount === 1 ? '' : 's'}`,
+    undefined,
+    { nightKey }
+  );
+});
+
+appEvents.on('venueLiked', ({ venueId, interactionId }) => {
+  const { awardXP, profile } = useUserProfileStore.getState();
+  if (!profile) return;
+
+  awardXP('like_bar', 'Liked a bar', venueId, { interactionId });
+});
+
+// Retry queued profile changes whenever the app comes back to the foreground
+AppState.addEventListener('change', (nextState) => {
+  if (nextState === 'active') {
+    useUserProfileStore.getState().flushPendingMutations();
+  }
+});
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { z } from "zod";
+import { protectedProcedure } from "./protectedProcedure";
+import { supabase } from "@/lib/supabase";
+import { loadProfileCards, ProfileCard } from "./profileCards";
+
+export type FriendshipStatus = 'friend' | 'pending' | 'none';
+
+export type UserSearchMatch = 'exact' | 'prefix' | 'contains' | 'fuzzy';
+
+export interface UserSearchResult extends ProfileCard {
+  friendship_status: FriendshipStatus;
+  match: UserSearchMatch;
+}
+
+// Upper bound on usernames ranked per search; pages are cut from this list
+const MAX_CANDIDATES = 300;
+
+interface CandidateRow {
+  id: string;
+  username: string;
+}
+
+interface FriendRow {
+  friend_id: string;
+}
+
+interface FriendRequestRow {
+  from_user_id: string;
+  to_user_id: string;
+}
+
+const MATCH_ORDER: Record<UserSearchMatch, number> = { exact: 0, prefix: 1, contains: 2, fuzzy: 3 };
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// One typo per four characters, at least one
+const maxTypos = (query: string) => Math.max(1, Math.floor(query.length / 4));
+
+const classify = (username: string, query: string): { match: UserSearchMatch; distance: number } | null => {
+  const name = username.toLowerCase();
+
+  if (name === query) return { match: 'exact', distance: 0 };
+  if (name.startsWith(query)) return { match: 'prefix', distance: name.length - query.length };
+  if (name.includes(query)) return { match: 'contains', distance: name.length - query.length };
+
+  // Compare against the start of the name too, so "jonh" finds "john_smith"
+  const distance = Math.min(levenshtein(name, query), levenshtein(name.slice(0, query.length), query));
+  return distance <= maxTypos(query) ? { match: 'fuzzy', distance } : null;
+};
+
+// The database ranks candidates (exact, prefix, substring, then trigram
+// similarity), so the best matches are never cut off by the limit and a typo
+// in any position, the first letter included, still finds the name
+const loadCandidates = async (query: string, excludeId: string) => {
+  const { data, error } = await supabase.rpc('search_username_candidates', {
+    p_query: query,
+    p_exclude: excludeId,
+    p_limit: MAX_CANDIDATES,
+  });
+
+  if (error) throw error;
+
+  const byId = new Map<string, string>();
+  ((data || []) as CandidateRow[]).forEach(row => byId.set(row.id, row.username));
+  return byId;
+};
+
+export const loadFriendshipStatuses = async (userId: string, otherIds: string[]): Promise<Record<string, FriendshipStatus>> => {
+  const statuses: Record<string, FriendshipStatus> = {};
+  if (otherIds.length === 0) return statuses;
+
+  const [friends, requests] = await Promise.all([
+    supabase
+      .from('friends')
+      .select('friend_id')
+      .eq('user_id', userId)
+      .in('friend_id', otherIds),
+    supabase
+      .from('friend_requests')
+      .select('from_user_id, to_user_id')
+      .eq('status', 'pending')
+      .or(`and(from_user_id.eq.${userId},to_user_id.in.(${otherIds.join(',')})),and(to_user_id.eq.${userId},from_user_id.in.(${otherIds.join(',')}))`),
+  ]);
+
+  if (friends.error) throw friends.error;
+  if (requests.error) throw requests.error;
+
+  ((requests.data || []) as FriendRequestRow[]).forEach(row => {
+    statuses[row.from_user_id === userId ? row.to_user_id : row.from_user_id] = 'pending';
+  });
+  ((friends.data || []) as FriendRow[]).forEach(row => {
+    statuses[row.friend_id] = 'friend';
+  });
+
+  return statuses;
+};
+
+export const searchUsersProcedure = protectedProcedure
+  .input(z.object({
+    query: z.string().trim().min(1).max(40),
+    cursor: z.number().int().min(0).optional(),
+    limit: z.number().int().min(1).max(50).optional(),
+  }))
+  .query(async ({ ctx, input }) => {
+    const userId = ctx.user.id;
+    const query = input.query.toLowerCase();
+    const offset = input.cursor ?? 0;
+    const limit = input.limit ?? 20;
+
+    try {
+      const candidates = await loadCandidates(query, userId);
+
+      const ranked = Array.from(candidates.entries())
+        .map(([id, username]) => ({ id, username, ...classify(username, query) }))
+        .filter((candidate): candidate is { id: string; username: string; match: UserSearchMatch; distance: number } =>
+          !!candidate.match)
+        .sort((a, b) =>
+          (MATCH_ORDER[a.match] - MATCH_ORDER[b.match]) ||
+          (a.distance - b.distance) ||
+          a.username.localeCompare(b.username)
+        );
+
+      const page = ranked.slice(offset, offset + limit);
+      const pageIds = page.map(candidate => candidate.id);
+
+      // Cards drop anyone blocked in either direction and apply privacy
+      const [cards, statuses] = await Promise.all([
+        loadProfileCards(userId, pageIds),
+        loadFriendshipStatuses(userId, pageIds),
+      ]);
+
+      const cardsById = new Map(cards.map(card => [card.id, card]));
+      const results: UserSearchResult[] = page
+        .filter(candidate => cardsById.has(candidate.id))
+        .map(candidate => ({
+          ...cardsById.get(candidate.id)!,
+          friendship_status: statuses[candidate.id] || 'none',
+          match: candidate.match,
+        }));
+
+      return {
+        success: true,
+        results,
+        nextCursor: offset + limit < ranked.length ? offset + limit : null,
+      };
+    } catch (error) {
+      console.error('Error searching users:', error);
+      return {
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to search users'
+      };
+    }
+  });
+
+export default searchUsersProcedure;
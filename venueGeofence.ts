@@ -0,0 +1,108 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null; // Reported horizontal accuracy in meters
+}
+
+export interface VenueGeofence {
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+}
+
+export type CheckInVerificationFailure =
+  | 'no_location'
+  | 'unknown_venue'
+  | 'low_accuracy'
+  | 'outside_geofence'
+  | 'cooldown'; // Verified at the same venue too recently; only the server reports this
+
+export interface CheckInVerification {
+  verified: boolean;
+  distanceMeters: number | null;
+  reason?: CheckInVerificationFailure;
+}
+
+interface GeofenceConfig {
+  defaultRadiusMeters: number;
+  // Extra slack on top of a venue's radius for GPS drift
+  toleranceMeters: number;
+  // Fixes less accurate than this are not trusted at all
+  maxAccuracyMeters: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+let config: GeofenceConfig = {
+  defaultRadiusMeters: 75,
+  toleranceMeters: 50,
+  maxAccuracyMeters: 150,
+};
+
+const venueGeofences: Record<string, VenueGeofence> = {};
+
+export const configureGeofence = (overrides: Partial<GeofenceConfig>) => {
+  config = { ...config, ...overrides };
+};
+
+export const getDefaultGeofenceRadius = (): number => config.defaultRadiusMeters;
+
+export const registerVenueGeofence = (
+  venueId: string,
+  geofence: { latitude: number; longitude: number; radiusMeters?: number }
+) => {
+  if (!venueId) return;
+  venueGeofences[venueId] = {
+    latitude: geofence.latitude,
+    longitude: geofence.longitude,
+    radiusMeters: geofence.radiusMeters ?? config.defaultRadiusMeters,
+  };
+};
+
+export const getVenueGeofence = (venueId: string): VenueGeofence | undefined => venueGeofences[venueId];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance using the haversine formula
+export const distanceInMeters = (
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Pure check shared with the server, which verifies against the venues table
+export const checkGeofence = (
+  geofence: VenueGeofence | undefined,
+  location?: Coordinates | null
+): CheckInVerification => {
+  if (!location || typeof location.latitude !== 'number' || typeof location.longitude !== 'number') {
+    return { verified: false, distanceMeters: null, reason: 'no_location' };
+  }
+
+  if (!geofence) {
+    return { verified: false, distanceMeters: null, reason: 'unknown_venue' };
+  }
+
+  const distanceMeters = Math.round(distanceInMeters(location, geofence));
+
+  if (location.accuracy != null && location.accuracy > config.maxAccuracyMeters) {
+    return { verified: false, distanceMeters, reason: 'low_accuracy' };
+  }
+
+  if (distanceMeters > geofence.radiusMeters + config.toleranceMeters) {
+    return { verified: false, distanceMeters, reason: 'outside_geofence' };
+  }
+
+  return { verified: true, distanceMeters };
+};
+
+// The app's own verdict, shown straight away. The recordVenueInteraction
+// procedure decides whether the check-in really counts.
+export const verifyCheckInLocation = (venueId: string, location?: Coordinates | null): CheckInVerification => {
+  return checkGeofence(getVenueGeofence(venueId), location);
+};
@@ -0,0 +1,189 @@
+import { z } from "zod";
+import { protectedProcedure } from "./protectedProcedure";
+import { supabase } from "@/lib/supabase";
+import { getBusinessNightKey, getTimeSlotKey } from "./businessNight";
+import { CheckInVerification, checkGeofence } from "./venueGeofence";
+import { loadVenueRecord, toVenueGeofence } from "./venues";
+
+// Offline check-ins keep the time they happened, within reason
+const MAX_OFFLINE_HOURS = 6;
+const MAX_CLOCK_SKEW_MINUTES = 5;
+// Verified check-ins at the same venue closer together than this don't count
+const CHECK_IN_COOLDOWN_HOURS = 2;
+
+const TIME_SLOT_PATTERN = /^([01]\d|2[0-3]):(00|30)$/;
+
+const INTERACTION_COLUMNS = 'id, verified, verification_failure, distance_meters, night_key, time_slot';
+
+interface VenueInteractionRow {
+  id: string;
+  verified: boolean | null;
+  verification_failure: CheckInVerification['reason'] | null;
+  distance_meters: number | null;
+  night_key: string;
+  time_slot: string | null;
+}
+
+const isUniqueViolation = (error: { code?: string } | null) => error?.code === '23505';
+
+const toResult = (row: VenueInteractionRow, duplicate: boolean) => ({
+  success: true,
+  duplicate,
+  interactionId: row.id,
+  verified: row.verified === true,
+  reason: row.verification_failure || undefined,
+  distanceMeters: row.distance_meters,
+  nightKey: row.night_key,
+  timeSlot: row.time_slot,
+});
+
+const getOccurredAt = (occurredAt?: string): Date => {
+  const now = Date.now();
+  const time = occurredAt ? Date.parse(occurredAt) : NaN;
+  if (Number.isNaN(time)) return new Date(now);
+  if (time > now + MAX_CLOCK_SKEW_MINUTES * 60 * 1000) return new Date(now);
+  if (time < now - MAX_OFFLINE_HOURS * 60 * 60 * 1000) return new Date(now);
+  return new Date(time);
+};
+
+const findInteraction = async (userId: string, clientEventId: string): Promise<VenueInteractionRow | null> => {
+  const { data, error } = await supabase
+    .from('venue_interactions')
+    .select(INTERACTION_COLUMNS)
+    .eq('user_id', userId)
+    .eq('client_event_id', clientEventId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as VenueInteractionRow | null) || null;
+};
+
+// The only way check-ins and likes reach venue_interactions. The location is
+// checked here against the venues table, so the verified flag (and the XP and
+// crowd stats that depend on it) can't be asserted by the app.
+export const recordVenueInteractionProcedure = protectedProcedure
+  .input(z.object({
+    clientEventId: z.string().min(8).max(64),
+    venueId: z.string().min(1).max(128),
+    type: z.enum(['check_in', 'like']),
+    timeSlot: z.string().regex(TIME_SLOT_PATTERN).optional(),
+    location: z.object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+      accuracy: z.number().min(0).nullable().optional(),
+    }).optional(),
+    occurredAt: z.string().datetime().optional(),
+  }))
+  .mutation(async ({ ctx, input }) => {
+    const userId = ctx.user.id;
+
+    try {
+      // A retry after a lost response gets the original verdict back
+      const existing = await findInteraction(userId, input.clientEventId);
+      if (existing) {
+        return toResult(existing, true);
+      }
+
+      const venue = await loadVenueRecord(input.venueId);
+      if (!venue) {
+        return {
+          success: false,
+          code: 'UNKNOWN_VENUE',
+          error: 'Venue not found',
+          message: 'Failed to record venue interaction'
+        };
+      }
+
+      const occurredAt = getOccurredAt(input.occurredAt);
+      const timeZone = venue.time_zone || undefined;
+      const nightKey = getBusinessNightKey(occurredAt, timeZone);
+
+      let verification: CheckInVerification = { verified: false, distanceMeters: null };
+      // A like names the slot it's for. A check-in's slot is when it happened
+      // in the venue's time zone, from the time the server accepted above.
+      let timeSlot = getTimeSlotKey(occurredAt, timeZone);
+
+      if (input.type === 'like') {
+        if (!input.timeSlot) {
+          return {
+            success: false,
+            code: 'TIME_SLOT_REQUIRED',
+            error: 'Likes need a time slot',
+            message: 'Failed to record venue interaction'
+          };
+        }
+        timeSlot = input.timeSlot;
+      } else {
+        verification = checkGeofence(toVenueGeofence(venue), input.location);
+
+        if (verification.verified) {
+          const cooldownStart = new Date(occurredAt.getTime() - CHECK_IN_COOLDOWN_HOURS * 60 * 60 * 1000);
+          const { count, error: cooldownError } = await supabase
+            .from('venue_interactions')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', userId)
+            .eq('venue_id', venue.id)
+            .eq('interaction_type', 'check_in')
+            .eq('verified', true)
+            .gt('created_at', cooldownStart.toISOString());
+
+          if (cooldownError) throw cooldownError;
+
+          if ((count || 0) > 0) {
+            verification = { verified: false, distanceMeters: verification.distanceMeters, reason: 'cooldown' };
+          }
+        }
+      }
+
+      const { data: inserted, error } = await supabase
+        .from('venue_interactions')
+        .insert({
+          user_id: userId,
+          venue_id: venue.id,
+          interaction_type: input.type,
+          time_slot: timeSlot,
+          night_key: nightKey,
+          verified: input.type === 'check_in' ? verification.verified : null,
+          verification_failure: verification.reason || null,
+          distance_meters: verification.distanceMeters,
+          client_event_id: input.clientEventId,
+          created_at: occurredAt.toISOString(),
+        })
+        .select(INTERACTION_COLUMNS)
+        .single();
+
+      if (error) {
+        if (isUniqueViolation(error)) {
+          // Two retries raced; the other one already stored it
+          const raced = await findInteraction(userId, input.clientEventId);
+          if (raced) return toResult(raced, true);
+
+          // Otherwise venue_interactions_like_night_idx: one like per venue
+          // per business night
+          if (input.type === 'like') {
+            return {
+              success: false,
+              code: 'ALREADY_LIKED',
+              error: 'This venue was already liked tonight',
+              message: 'Failed to record venue interaction'
+            };
+          }
+        }
+        throw error;
+      }
+
+      console.log(`Recorded ${input.type} for ${userId} at ${venue.id} (${verification.verified ? 'verified' : verification.reason || 'like'})`);
+
+      return toResult(inserted as VenueInteractionRow, false);
+    } catch (error) {
+      console.error('Error recording venue interaction:', error);
+      return {
+        success: false,
+        code: 'INTERNAL',
+        error: 'Internal server error',
+        message: 'Failed to record venue interaction'
+      };
+    }
+  });
+
+export default recordVenueInteractionProcedure;
@@ -1,23 +1,100 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { supabase } from '@/lib/supabase';
+import { trpcClient } from '@/lib/trpc';
+import { appEvents } from './appEvents';
+import { getBusinessNightKey, getTimeSlotKey, getVenueTimeZone, setActiveVenue } from './businessNight';
+import { CheckInVerificationFailure, Coordinates, verifyCheckInLocation } from './venueGeofence';
+import { loadVenueDirectory } from './venues';
+import {
+  getRisingVenues,
+  getTrendingVenues,
+  RISING_LOOKBACK_HOURS,
+  RisingVenue,
+  TRENDING_EVENT_WEIGHTS,
+  TRENDING_HALF_LIFE_HOURS,
+  TRENDING_WINDOW_HOURS,
+  TrendingScore,
+  TrendingVenue,
+} from './trending';
 
-interface VenueInteraction {
+type VenueInteractionType = 'check_in' | 'like';
+
+// One check-in or like. The log is append-only; every count, limit and
+// popular-time getter is derived from it.
+interface VenueInteractionEvent {
+  id: string;
+  venueId: string;
+  type: VenueInteractionType;
+  timestamp: string;
+  timeSlot: string; // Arrival slot for check-ins, chosen slot for likes
+  nightKey: string; // Business night the event belongs to
+  // Check-ins only. Unverified check-ins stay in history but earn no XP
+  // and don't count towards popular times.
+  verified?: boolean;
+  verificationFailure?: CheckInVerificationFailure;
+  location?: Coordinates;
+  distanceMeters?: number | null;
+  // False until the server has recorded the event and returned its verdict.
+  // Events from before server verification have no flag.
+  synced?: boolean;
+  serverId?: string;
+}
+
+// A single night at a venue, as shown in the user's visit history
+interface VenueVisit {
+  venueId: string;
+  nightKey: string;
+  checkIns: number;
+  verifiedCheckIns: number;
+  firstCheckIn: string | null;
+  lastCheckIn: string | null;
+  arrivalTime: string | null;
+  liked: boolean;
+  likeTimeSlot: string | null;
+}
+
+// Shape persisted before the event log existed (store version 0)
+interface LegacyVenueInteraction {
   venueId: string;
   count: number;
-  lastReset: string;
   lastInteraction: string;
   arrivalTime?: string;
   likes: number;
   timestamp: string;
-  lastLikeReset: string;
-  dailyLikesUsed: number;
-  likeTimeSlot?: string; // Time slot when user liked the venue
+  likeTimeSlot?: string;
+}
+
+// Crowd-sourced counts from every other user, keyed by venueId then time slot
+type CrowdTimeSlots = Record<string, Record<string, { visits: number; likes: number }>>;
+
+// One row of the venue_popular_times RPC
+interface PopularTimeRow {
+  venue_id: string;
+  time_slot: string;
+  visits: number;
+  likes: number;
+}
+
+// One row of the venue_trending_scores RPC
+interface TrendingScoreRow {
+  venue_id: string;
+  score: number;
+  previous_score: number;
+  check_ins: number;
+  likes: number;
 }
 
 interface VenueInteractionState {
-  interactions: VenueInteraction[];
-  incrementInteraction: (venueId: string, arrivalTime?: string) => void;
+  events: VenueInteractionEvent[];
+  crowdTimeSlots: CrowdTimeSlots;
+  // Everyone's trending scores, our own interactions included
+  trendingScores: TrendingScore[];
+  // Crowd data is reloaded on launch rather than persisted
+  crowdLoadedAt?: string;
+  incrementInteraction: (venueId: string, arrivalTime?: string, location?: Coordinates) => void;
   likeVenue: (venueId: string, timeSlot: string) => void;
   getInteractionCount: (venueId: string) => number;
   getLikeCount: (venueId: string) => number;
@@ -27,62 +104,89 @@ interface VenueInteractionState {
   canLikeVenue: (venueId: string) => boolean;
   getPopularArrivalTime: (venueId: string) => string | null;
   getHotTimeWithLikes: (venueId: string) => { time: string; likes: number } | null;
-  syncToSupabase: (venueId: string, arrivalTime?: string) => Promise<void>;
+  syncToSupabase: () => Promise<void>;
   loadPopularTimesFromSupabase: () => Promise<void>;
-  getMostPopularVenues: () => { venueId: string; likes: number }[];
+  getMostPopularVenues: () => TrendingVenue[];
+  getRisingVenues: () => RisingVenue[];
   getTimeSlotData: (venueId: string) => { time: string; count: number; likes: number }[];
-  getAllInteractionsForVenue: (venueId: string) => VenueInteraction[];
+  getAllInteractionsForVenue: (venueId: string) => VenueInteractionEvent[];
+  getVisitHistory: (venueId: string) => VenueVisit[];
   getDetailedTimeSlotData: (venueId: string) => { time: string; visits: number; likes: number; isCurrentHour: boolean; isPeak: boolean }[];
   // New methods for better syncing
   forceUpdate: () => void;
   getTotalBarsVisited: () => number;
 }
 
-const RESET_HOUR = 5;
-const LIKE_RESET_HOUR = 4;
-const LIKE_RESET_MINUTE = 59;
 const INTERACTION_COOLDOWN_HOURS = 2;
-const DAILY_LIKE_LIMIT = 1; // 1 like per bar per day
+const DAILY_LIKE_LIMIT = 1; // 1 like per bar per business night
+const CROWD_LOOKBACK_DAYS = 90;
+const CROWD_REFRESH_MINUTES = 30;
+const MAX_STORED_EVENTS = 5000;
+// Failed syncs back off exponentially up to this delay
+const MAX_SYNC_RETRY_DELAY_MS = 60 * 1000;
 
-const shouldReset = (lastReset: string): boolean => {
-  try {
-    const lastResetDate = new Date(lastReset);
-    const now = new Date();
-    
-    const resetTime = new Date(now);
-    resetTime.setHours(RESET_HOUR, 0, 0, 0);
-    
-    return now >= resetTime && lastResetDate < resetTime;
-  } catch {
-    return false;
-  }
+const TIME_SLOTS = [
+  '19:00', '19:30', '20:00', '20:30', '21:00', '21:30', 
+  '22:00', '22:30', '23:00', '23:30', '00:00', '00:30', 
+  '01:00', '01:30', '02:00'
+];
+
+let isSyncingEvents = false;
+// Set when a sync is asked for while one is running, so the running one
+// goes round again instead of leaving the new events for the next trigger
+let eventResyncRequested = false;
+let eventSyncFailures = 0;
+let eventRetryTimeout: ReturnType<typeof setTimeout> | null = null;
+let isLoadingCrowdData = false;
+
+const generateEventId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Slots use the venue's clock, the same zone its business nights are keyed in
+const getTimeSlotFor = (date: Date | string, venueId: string): string => {
+  return getTimeSlotKey(date, getVenueTimeZone(venueId));
 };
 
-const shouldResetLikes = (lastLikeReset: string): boolean => {
-  try {
-    const lastResetDate = new Date(lastLikeReset);
-    const now = new Date();
-    
-    // Reset at 4:59 AM
-    const resetTime = new Date(now);
-    resetTime.setHours(LIKE_RESET_HOUR, LIKE_RESET_MINUTE, 0, 0);
-    
-    // If it's past 4:59 AM today and last reset was before today's 4:59 AM, reset
-    if (now >= resetTime && lastResetDate < resetTime) {
-      return true;
-    }
-    
-    // If it's before 4:59 AM today, check if last reset was before yesterday's 4:59 AM
-    if (now < resetTime) {
-      const yesterdayResetTime = new Date(resetTime);
-      yesterdayResetTime.setDate(yesterdayResetTime.getDate() - 1);
-      return lastResetDate < yesterdayResetTime;
+const getCurrentNightKey = (venueId: string): string => {
+  return getBusinessNightKey(new Date(), getVenueTimeZone(venueId));
+};
+
+const createEvent = (venueId: string, type: VenueInteractionType, timeSlot?: string): VenueInteractionEvent => {
+  const now = new Date();
+  return {
+    id: generateEventId(),
+    venueId,
+    type,
+    timestamp: now.toISOString(),
+    timeSlot: timeSlot || getTimeSlotFor(now, venueId),
+    nightKey: getBusinessNightKey(now, getVenueTimeZone(venueId)),
+  };
+};
+
+// Keep the persisted log bounded; oldest events go first
+const appendEvent = (events: VenueInteractionEvent[], event: VenueInteractionEvent) => {
+  const next = [...events.filter(Boolean), event];
+  return next.length > MAX_STORED_EVENTS ? next.slice(next.length - MAX_STORED_EVENTS) : next;
+};
+
+const getVenueEvents = (events: VenueInteractionEvent[], venueId: string, type?: VenueInteractionType) => {
+  return (events || []).filter(e => e && e.venueId === venueId && (!type || e.type === type));
+};
+
+// Likes always count; check-ins only when their location was verified.
+// Events from before verification existed have no flag and are trusted.
+const isCountable = (event: VenueInteractionEvent) => event.type === 'like' || event.verified !== false;
+
+const getCountableVenueEvents = (events: VenueInteractionEvent[], venueId: string, type?: VenueInteractionType) => {
+  return getVenueEvents(events, venueId, type).filter(isCountable);
+};
+
+const countBySlot = (events: VenueInteractionEvent[]): Record<string, number> => {
+  return events.reduce((acc, e) => {
+    if (e && e.timeSlot) {
+      acc[e.timeSlot] = (acc[e.timeSlot] || 0) + 1;
     }
-    
-    return false;
-  } catch {
-    return false;
-  }
+    return acc;
+  }, {} as Record<string, number>);
 };
 
 const canInteractWithVenue = (lastInteraction: string | undefined): boolean => {
@@ -101,77 +205,76 @@ const canInteractWithVenue = (lastInteraction: string | undefined): boolean => {
   }
 };
 
-// Debounce function to prevent rapid successive calls
-const debounce = <T extends (...args: any[]) => any>(func: T, wait: number): T => {
-  let timeout: ReturnType<typeof setTimeout>;
-  return ((...args: any[]) => {
-    clearTimeout(timeout);
-    timeout = setTimeout(() => func.apply(null, args), wait);
-  }) as T;
+const getCrowdSlots = (crowdTimeSlots: CrowdTimeSlots, venueId: string) => {
+  return (crowdTimeSlots && crowdTimeSlots[venueId]) || {};
+};
+
+// Expands the old one-record-per-venue shape into events. Per-visit times
+// weren't kept, so each counted visit is stamped with the last known time.
+const migrateLegacyInteractions = (interactions: LegacyVenueInteraction[]): VenueInteractionEvent[] => {
+  const events: VenueInteractionEvent[] = [];
+
+  (interactions || []).filter(Boolean).forEach(interaction => {
+    const checkInAt = interaction.lastInteraction || interaction.timestamp;
+    for (let i = 0; i < (interaction.count || 0) && checkInAt; i++) {
+      events.push({
+        id: generateEventId(),
+        venueId: interaction.venueId,
+        type: 'check_in',
+        timestamp: checkInAt,
+        timeSlot: interaction.arrivalTime || getTimeSlotFor(checkInAt, interaction.venueId),
+        nightKey: getBusinessNightKey(checkInAt, getVenueTimeZone(interaction.venueId)),
+      });
+    }
+
+    for (let i = 0; i < (interaction.likes || 0) && interaction.timestamp; i++) {
+      events.push({
+        id: generateEventId(),
+        venueId: interaction.venueId,
+        type: 'like',
+        timestamp: interaction.timestamp,
+        timeSlot: interaction.likeTimeSlot || getTimeSlotFor(interaction.timestamp, interaction.venueId),
+        nightKey: getBusinessNightKey(interaction.timestamp, getVenueTimeZone(interaction.venueId)),
+      });
+    }
+  });
+
+  return events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
 };
 
 export const useVenueInteractionStore = create<VenueInteractionState>()(
   persist(
     (set, get) => ({
-      interactions: [],
+      events: [],
+      crowdTimeSlots: {},
+      trendingScores: [],
+      crowdLoadedAt: undefined,
       
-      incrementInteraction: (venueId, arrivalTime) => {
+      incrementInteraction: (venueId, arrivalTime, location) => {
         try {
           if (!venueId) return;
           
-          get().resetInteractionsIfNeeded();
-          
           if (!get().canInteract(venueId)) return;
           
-          const now = new Date().toISOString();
-          let isNewBar = false;
+          // Our own verdict is only shown until the server returns its own
+          const verification = verifyCheckInLocation(venueId, location);
+          const event: VenueInteractionEvent = {
+            ...createEvent(venueId, 'check_in', arrivalTime),
+            verified: verification.verified,
+            verificationFailure: verification.reason,
+            location,
+            distanceMeters: verification.distanceMeters,
+            synced: false,
+          };
           
-          set((state) => {
-            const existingInteraction = state.interactions.find(i => i && i.venueId === venueId);
-            
-            if (existingInteraction) {
-              return {
-                interactions: state.interactions.map(i => 
-                  i && i.venueId === venueId 
-                    ? { 
-                        ...i, 
-                        count: i.count + 1,
-                        lastInteraction: now,
-                        arrivalTime: arrivalTime || i.arrivalTime,
-                        timestamp: now
-                      } 
-                    : i
-                ).filter(Boolean)
-              };
-            } else {
-              isNewBar = true;
-              return {
-                interactions: [
-                  ...state.interactions.filter(Boolean),
-                  { 
-                    venueId, 
-                    count: 1, 
-                    likes: 0,
-                    lastReset: now,
-                    lastInteraction: now,
-                    arrivalTime,
-                    timestamp: now,
-                    lastLikeReset: now,
-                    dailyLikesUsed: 0,
-                  }
-                ]
-              };
-            }
-          });
-
-          // Award XP through user profile store with debouncing
-          debouncedAwardXP(venueId, isNewBar);
+          setActiveVenue(venueId);
           
-          // Update achievements
-          debouncedUpdateAchievements();
+          set((state) => ({
+            events: appendEvent(state.events, event)
+          }));
           
-          // Sync to Supabase
-          get().syncToSupabase(venueId, arrivalTime);
+          // XP and the night session follow once the server has verified it
+          get().syncToSupabase();
         } catch (error) {
           console.warn('Error incrementing interaction:', error);
         }
@@ -182,58 +285,17 @@ export const useVenueInteractionStore = create<VenueInteractionState>()(
         try {
           if (!venueId || !timeSlot) return;
           
-          // Check if user can like this venue today
+          // Check if user can like this venue tonight
           if (!get().canLikeVenue(venueId)) return;
           
-          const now = new Date().toISOString();
+          const event: VenueInteractionEvent = { ...createEvent(venueId, 'like', timeSlot), synced: false };
           
-          set((state) => {
-            const existingInteraction = state.interactions.find(i => i && i.venueId === venueId);
-            
-            if (existingInteraction) {
-              // Reset daily likes if needed
-              const shouldResetLikesForVenue = shouldResetLikes(existingInteraction.lastLikeReset);
-              const dailyLikesUsed = shouldResetLikesForVenue ? 0 : existingInteraction.dailyLikesUsed;
-              
-              return {
-                interactions: state.interactions.map(i => 
-                  i && i.venueId === venueId 
-                    ? { 
-                        ...i, 
-                        likes: i.likes + 1,
-                        timestamp: now,
-                        lastLikeReset: shouldResetLikesForVenue ? now : i.lastLikeReset,
-                        dailyLikesUsed: dailyLikesUsed + 1,
-                        likeTimeSlot: timeSlot,
-                      } 
-                    : i
-                ).filter(Boolean)
-              };
-            } else {
-              return {
-                interactions: [
-                  ...state.interactions.filter(Boolean),
-                  { 
-                    venueId, 
-                    count: 0, 
-                    likes: 1,
-                    lastReset: now,
-                    lastInteraction: '',
-                    timestamp: now,
-                    lastLikeReset: now,
-                    dailyLikesUsed: 1,
-                    likeTimeSlot: timeSlot,
-                  }
-                ]
-              };
-            }
-          });
-
-          // Award XP for liking a bar with debouncing
-          debouncedAwardLikeXP(venueId);
+          set((state) => ({
+            events: appendEvent(state.events, event)
+          }));
           
-          // Update achievements for bars visited
-          debouncedUpdateAchievements();
+          // Sync to Supabase so the like counts towards the venue's hot time
+          get().syncToSupabase();
           
           console.log('✅ Like venue completed, triggering re-render...');
           
@@ -244,12 +306,14 @@ export const useVenueInteractionStore = create<VenueInteractionState>()(
         }
       },
       
+      // Check-ins at this venue during the current business night
       getInteractionCount: (venueId) => {
         try {
           if (!venueId) return 0;
-          get().resetInteractionsIfNeeded();
-          const interaction = get().interactions.find(i => i && i.venueId === venueId);
-          return interaction ? interaction.count : 0;
+          const nightKey = getCurrentNightKey(venueId);
+          return getVenueEvents(get().events, venueId, 'check_in')
+            .filter(e => e.nightKey === nightKey)
+            .length;
         } catch {
           return 0;
         }
@@ -258,8 +322,7 @@ export const useVenueInteractionStore = create<VenueInteractionState>()(
       getLikeCount: (venueId) => {
         try {
           if (!venueId) return 0;
-          const interaction = get().interactions.find(i => i && i.venueId === venueId);
-          return interaction ? interaction.likes : 0;
+          return getVenueEvents(get().events, venueId, 'like').length;
         } catch {
           return 0;
         }
@@ -267,10 +330,7 @@ export const useVenueInteractionStore = create<VenueInteractionState>()(
       
       getTotalLikes: () => {
         try {
-          const { interactions } = get();
-          return interactions
-            .filter(Boolean)
-            .reduce((total, interaction) => total + (interaction?.likes || 0), 0);
+          return get().events.filter(e => e && e.type === 'like').length;
         } catch {
           return 0;
         }
@@ -278,23 +338,29 @@ export const useVenueInteractionStore = create<VenueInteractionState>()(
       
       getTotalBarsVisited: () => {
         try {
-          const { interactions } = get();
-          return interactions
-            .filter(i => i && i.venueId && (i.likes > 0 || i.count > 0))
-            .length;
+          return new Set(
+            get().events.filter(e => e && e.venueId).map(e => e.venueId)
+          ).size;
         } catch {
           return 0;
         }
       },
       
+      // Trending rather than all-time: recent check-ins and likes from
+      // everyone, decayed by age. Stale scores are reloaded in the background.
       getMostPopularVenues: () => {
         try {
-          const { interactions } = get();
-          return interactions
-            .filter(i => i && i.venueId)
-            .map(i => ({ venueId: i.venueId, likes: i.likes || 0 }))
-            .sort((a, b) => b.likes - a.likes)
-            .slice(0, 10);
+          refreshCrowdDataIfStale();
+          return getTrendingVenues(get().trendingScores, 10);
+        } catch {
+          return [];
+        }
+      },
+      
+      getRisingVenues: () => {
+        try {
+          refreshCrowdDataIfStale();
+          return getRisingVenues(get().trendingScores, 10);
         } catch {
           return [];
         }
@@ -304,26 +370,21 @@ export const useVenueInteractionStore = create<VenueInteractionState>()(
         try {
           if (!venueId) return [];
           
-          const { interactions } = get();
-          const venueInteractions = interactions.filter(i => i && i.venueId === venueId);
-          
-          const timeSlotCounts: Record<string, { count: number; likes: number }> = {};
+          const { events, crowdTimeSlots } = get();
+          const checkIns = countBySlot(getCountableVenueEvents(events, venueId, 'check_in'));
+          const likes = countBySlot(getVenueEvents(events, venueId, 'like'));
+          const crowdSlots = getCrowdSlots(crowdTimeSlots, venueId);
           
-          venueInteractions.forEach(interaction => {
-            if (interaction && interaction.arrivalTime) {
-              if (!timeSlotCounts[interaction.arrivalTime]) {
-                timeSlotCounts[interaction.arrivalTime] = { count: 0, likes: 0 };
-              }
-              timeSlotCounts[interaction.arrivalTime].count += interaction.count || 0;
-              timeSlotCounts[interaction.arrivalTime].likes += interaction.likes || 0;
-            }
-          });
+          // Our own history plus what everyone else is doing at this venue
+          const slots = new Set([...Object.keys(checkIns), ...Object.keys(likes), ...Object.keys(crowdSlots)]);
           
-          return Object.entries(timeSlotCounts).map(([time, data]) => ({
-            time: time || '',
-            count: data?.count || 0,
-            likes: data?.likes || 0
-          }));
+          return Array.from(slots)
+            .filter(Boolean)
+            .map(time => ({
+              time,
+              count: (checkIns[time] || 0) + (crowdSlots[time]?.visits || 0),
+              likes: (likes[time] || 0) + (crowdSlots[time]?.likes || 0),
+            }));
         } catch {
           return [];
         }
@@ -332,122 +393,96 @@ export const useVenueInteractionStore = create<VenueInteractionState>()(
       getAllInteractionsForVenue: (venueId) => {
         try {
           if (!venueId) return [];
-          const { interactions } = get();
-          return interactions.filter(i => i && i.venueId === venueId) || [];
+          return getVenueEvents(get().events, venueId);
         } catch {
           return [];
         }
       },
 
-      getDetailedTimeSlotData: (venueId) => {
+      // One entry per business night the user checked in or liked, newest first
+      getVisitHistory: (venueId) => {
         try {
           if (!venueId) return [];
           
-          const { interactions } = get();
-          const venueInteractions = interactions.filter(i => i && i.venueId === venueId);
-          
-          const TIME_SLOTS = [
-            '19:00', '19:30', '20:00', '20:30', '21:00', '21:30', 
-            '22:00', '22:30', '23:00', '23:30', '00:00', '00:30', 
-            '01:00', '01:30', '02:00'
-          ];
-
-          const now = new Date();
-          const currentHour = now.getHours();
-          const currentMinutes = now.getMinutes();
-          const currentTimeSlot = `${currentHour.toString().padStart(2, '0')}:${currentMinutes >= 30 ? '30' : '00'}`;
-
-          const timeSlotData = TIME_SLOTS.map(timeSlot => {
-            if (!timeSlot) {
-              return {
-                time: '',
-                visits: 0,
-                likes: 0,
-                isCurrentHour: false,
-                isPeak: false
-              };
-            }
-
-            const slotInteractions = venueInteractions.filter(i => i && i.arrivalTime === timeSlot);
-            const visits = slotInteractions.reduce((sum, i) => sum + (i?.count || 0), 0);
-            const likes = slotInteractions.reduce((sum, i) => sum + (i?.likes || 0), 0);
+          const visits: Record<string, VenueVisit> = {};
+          
+          getVenueEvents(get().events, venueId).forEach(e => {
+            const visit = visits[e.nightKey] || (visits[e.nightKey] = {
+              venueId,
+              nightKey: e.nightKey,
+              checkIns: 0,
+              verifiedCheckIns: 0,
+              firstCheckIn: null,
+              lastCheckIn: null,
+              arrivalTime: null,
+              liked: false,
+              likeTimeSlot: null,
+            });
             
-            return {
-              time: timeSlot,
-              visits,
-              likes,
-              isCurrentHour: timeSlot === currentTimeSlot,
-              isPeak: false
-            };
+            if (e.type === 'check_in') {
+              visit.checkIns += 1;
+              if (isCountable(e)) visit.verifiedCheckIns += 1;
+              if (!visit.firstCheckIn || e.timestamp < visit.firstCheckIn) {
+                visit.firstCheckIn = e.timestamp;
+                visit.arrivalTime = e.timeSlot;
+              }
+              if (!visit.lastCheckIn || e.timestamp > visit.lastCheckIn) {
+                visit.lastCheckIn = e.timestamp;
+              }
+            } else {
+              visit.liked = true;
+              visit.likeTimeSlot = e.timeSlot;
+            }
           });
+          
+          return Object.values(visits).sort((a, b) => b.nightKey.localeCompare(a.nightKey));
+        } catch {
+          return [];
+        }
+      },
 
-          const sortedByVisits = [...timeSlotData]
-            .filter(slot => slot && slot.time)
-            .sort((a, b) => b.visits - a.visits);
-          const topSlots = sortedByVisits.slice(0, 3);
+      getDetailedTimeSlotData: (venueId) => {
+        try {
+          if (!venueId) return [];
+          
+          const { events, crowdTimeSlots } = get();
+          const checkIns = countBySlot(getCountableVenueEvents(events, venueId, 'check_in'));
+          const likes = countBySlot(getVenueEvents(events, venueId, 'like'));
+          const crowdSlots = getCrowdSlots(crowdTimeSlots, venueId);
+          const currentTimeSlot = getTimeSlotFor(new Date(), venueId);
+
+          const timeSlotData = TIME_SLOTS.map(timeSlot => ({
+            time: timeSlot,
+            visits: (checkIns[timeSlot] || 0) + (crowdSlots[timeSlot]?.visits || 0),
+            likes: (likes[timeSlot] || 0) + (crowdSlots[timeSlot]?.likes || 0),
+            isCurrentHour: timeSlot === currentTimeSlot,
+            isPeak: false
+          }));
+
+          const topSlots = [...timeSlotData]
+            .sort((a, b) => b.visits - a.visits)
+            .slice(0, 3);
           
           timeSlotData.forEach(slot => {
-            if (slot && slot.time) {
-              slot.isPeak = topSlots.some(top => top && top.time === slot.time && top.visits > 0);
-            }
+            slot.isPeak = topSlots.some(top => top.time === slot.time && top.visits > 0);
           });
 
-          return timeSlotData.filter(slot => slot && slot.time);
+          return timeSlotData;
         } catch {
           return [];
         }
       },
       
-      resetInteractionsIfNeeded: () => {
-        try {
-          set((state) => {
-            const needsReset = state.interactions.some(
-              i => i && shouldReset(i.lastReset)
-            );
-            
-            const needsLikeReset = state.interactions.some(
-              i => i && shouldResetLikes(i.lastLikeReset || i.lastReset)
-            );
-            
-            if (needsReset || needsLikeReset) {
-              const now = new Date().toISOString();
-              
-              return {
-                interactions: state.interactions
-                  .filter(Boolean)
-                  .map(i => {
-                    if (!i) return i;
-                    
-                    const shouldResetInteraction = shouldReset(i.lastReset);
-                    const shouldResetLikesForVenue = shouldResetLikes(i.lastLikeReset || i.lastReset);
-                    
-                    return {
-                      ...i,
-                      count: shouldResetInteraction ? 0 : i.count,
-                      lastReset: shouldResetInteraction ? now : i.lastReset,
-                      arrivalTime: shouldResetInteraction ? undefined : i.arrivalTime,
-                      lastLikeReset: shouldResetLikesForVenue ? now : (i.lastLikeReset || i.lastReset),
-                      dailyLikesUsed: shouldResetLikesForVenue ? 0 : (i.dailyLikesUsed || 0),
-                      likeTimeSlot: shouldResetLikesForVenue ? undefined : i.likeTimeSlot,
-                    };
-                  })
-                  .filter(Boolean)
-              };
-            }
-            
-            return state;
-          });
-        } catch (error) {
-          console.warn('Error resetting interactions:', error);
-        }
-      },
+      // Counts are derived per business night from the event log, so there is
+      // nothing left to reset. Kept so existing callers keep working.
+      resetInteractionsIfNeeded: () => {},
       
       canInteract: (venueId) => {
         try {
           if (!venueId) return false;
-          get().resetInteractionsIfNeeded();
-          const interaction = get().interactions.find(i => i && i.venueId === venueId);
-          return canInteractWithVenue(interaction?.lastInteraction);
+          // Unverified check-ins earn nothing, so they don't start a cooldown
+          const checkIns = getCountableVenueEvents(get().events, venueId, 'check_in');
+          return canInteractWithVenue(checkIns[checkIns.length - 1]?.timestamp);
         } catch {
           return true;
         }
@@ -457,17 +492,12 @@ export const useVenueInteractionStore = create<VenueInteractionState>()(
         try {
           if (!venueId) return false;
           
-          get().resetInteractionsIfNeeded();
-          
-          const interaction = get().interactions.find(i => i && i.venueId === venueId);
-          
-          if (!interaction) return true; // Can like if no interaction exists
-          
-          // Check if likes have been reset today
-          const shouldResetLikesForVenue = shouldResetLikes(interaction.lastLikeReset || interaction.lastReset);
-          const dailyLikesUsed = shouldResetLikesForVenue ? 0 : (interaction.dailyLikesUsed || 0);
+          const nightKey = getCurrentNightKey(venueId);
+          const likesTonight = getVenueEvents(get().events, venueId, 'like')
+            .filter(e => e.nightKey === nightKey)
+            .length;
           
-          return dailyLikesUsed < DAILY_LIKE_LIMIT;
+          return likesTonight < DAILY_LIKE_LIMIT;
         } catch {
           return true;
         }
@@ -477,16 +507,11 @@ export const useVenueInteractionStore = create<VenueInteractionState>()(
         try {
           if (!venueId) return null;
           
-          const allInteractions = get().interactions.filter(i => 
-            i && i.venueId === venueId && i.arrivalTime && i.count > 0
-          );
+          const timeCounts = countBySlot(getCountableVenueEvents(get().events, venueId, 'check_in'));
           
-          if (allInteractions.length === 0) return null;
-          
-          const timeCounts: Record<string, number> = {};
-          allInteractions.forEach(interaction => {
-            if (interaction && interaction.arrivalTime) {
-              timeCounts[interaction.arrivalTime] = (timeCounts[interaction.arrivalTime] || 0) + (interaction.count || 0);
+          Object.entries(getCrowdSlots(get().crowdTimeSlots, venueId)).forEach(([time, crowd]) => {
+            if (time && crowd?.visits > 0) {
+              timeCounts[time] = (timeCounts[time] || 0) + crowd.visits;
             }
           });
           
@@ -510,15 +535,12 @@ export const useVenueInteractionStore = create<VenueInteractionState>()(
         try {
           if (!venueId) return null;
           
-          const { interactions } = get();
-          const venueInteractions = interactions.filter(i => i && i.venueId === venueId);
-          
           // Count likes by time slot
-          const timeSlotLikes: Record<string, number> = {};
+          const timeSlotLikes = countBySlot(getVenueEvents(get().events, venueId, 'like'));
           
-          venueInteractions.forEach(interaction => {
-            if (interaction && interaction.likeTimeSlot && interaction.likes > 0) {
-              timeSlotLikes[interaction.likeTimeSlot] = (timeSlotLikes[interaction.likeTimeSlot] || 0) + interaction.likes;
+          Object.entries(getCrowdSlots(get().crowdTimeSlots, venueId)).forEach(([time, crowd]) => {
+            if (time && crowd?.likes > 0) {
+              timeSlotLikes[time] = (timeSlotLikes[time] || 0) + crowd.likes;
             }
           });
           
@@ -544,17 +566,99 @@ export const useVenueInteractionStore = create<VenueInteractionState>()(
         set((state) => ({ ...state }));
       },
 
-      syncToSupabase: async (venueId: string, arrivalTime?: string) => {
+      // Sends unsynced check-ins and likes in order, stopping at the first one
+      // that doesn't get through so it's retried before anything newer. Keeps
+      // going until nothing is left, and after a failure retries with backoff.
+      syncToSupabase: async () => {
+        if (isSyncingEvents) {
+          eventResyncRequested = true;
+          return;
+        }
+        isSyncingEvents = true;
+        if (eventRetryTimeout) {
+          clearTimeout(eventRetryTimeout);
+          eventRetryTimeout = null;
+        }
+
+        let failed = false;
         try {
-          // Mock implementation - would sync to Supabase in real app
+          do {
+            eventResyncRequested = false;
+            const unsynced = get().events.filter(e => e && e.synced === false);
+            for (const event of unsynced) {
+              const delivered = await recordEvent(event);
+              if (!delivered) {
+                failed = true;
+                break;
+              }
+            }
+          } while (!failed && (eventResyncRequested || get().events.some(e => e && e.synced === false)));
         } catch (error) {
-          console.warn('Error syncing venue interaction to Supabase:', error);
+          console.warn('Error syncing venue interactions to Supabase:', error);
+          failed = true;
+        } finally {
+          isSyncingEvents = false;
+        }
+
+        if (failed) {
+          scheduleEventSyncRetry();
+        } else {
+          eventSyncFailures = 0;
         }
       },
 
       loadPopularTimesFromSupabase: async () => {
         try {
-          // Mock implementation - would load from Supabase in real app
+          const since = new Date();
+          since.setDate(since.getDate() - CROWD_LOOKBACK_DAYS);
+          
+          // Popular times are grouped per venue and slot on the server
+          const popularQuery = supabase.rpc('venue_popular_times', { p_since: since.toISOString() });
+          
+          // Trending scores too, from everyone's interactions including ours
+          const trendingQuery = supabase.rpc('venue_trending_scores', {
+            p_half_life_hours: TRENDING_HALF_LIFE_HOURS,
+            p_window_hours: TRENDING_WINDOW_HOURS,
+            p_lookback_hours: RISING_LOOKBACK_HOURS,
+            p_check_in_weight: TRENDING_EVENT_WEIGHTS.check_in,
+            p_like_weight: TRENDING_EVENT_WEIGHTS.like,
+          });
+          
+          const [{ data, error }, trending] = await Promise.all([popularQuery, trendingQuery]);
+          
+          if (error) {
+            console.warn('Error loading popular times from Supabase:', error);
+            return;
+          }
+          
+          if (trending.error) {
+            console.warn('Error loading trending venues from Supabase:', trending.error);
+          }
+          
+          const trendingScores: TrendingScore[] = trending.error
+            ? get().trendingScores
+            : ((trending.data || []) as TrendingScoreRow[]).map(row => ({
+                venueId: row.venue_id,
+                score: Number(row.score) || 0,
+                previousScore: Number(row.previous_score) || 0,
+                checkIns: Number(row.check_ins) || 0,
+                likes: Number(row.likes) || 0,
+              }));
+          
+          const crowdTimeSlots: CrowdTimeSlots = {};
+          
+          ((data || []) as PopularTimeRow[]).forEach(row => {
+            if (!row.venue_id || !row.time_slot) return;
+            
+            const venueSlots = crowdTimeSlots[row.venue_id] || (crowdTimeSlots[row.venue_id] = {});
+            venueSlots[row.time_slot] = {
+              visits: Number(row.visits) || 0,
+              likes: Number(row.likes) || 0,
+            };
+          });
+          
+          set({ crowdTimeSlots, trendingScores, crowdLoadedAt: new Date().toISOString() });
+          console.log(`✅ Loaded popular times for ${Object.keys(crowdTimeSlots).length} venues`);
         } catch (error) {
           console.warn('Error loading popular times from Supabase:', error);
         }
@@ -563,79 +667,139 @@ export const useVenueInteractionStore = create<VenueInteractionState>()(
     {
       name: 'venue-interactions-storage',
       storage: createJSONStorage(() => AsyncStorage),
+      version: 2,
+      // Only our own event log is kept. Crowd data goes stale quickly and is
+      // reloaded on launch; version 1 still persisted it.
+      partialize: (state) => ({ events: state.events }),
+      migrate: (persistedState: any, version) => {
+        if (version === 0 && persistedState) {
+          return { events: migrateLegacyInteractions(persistedState.interactions || []) };
+        }
+        return persistedState ? { events: persistedState.events || [] } : persistedState;
+      },
+      onRehydrateStorage: () => (state) => {
+        if (!state) return;
+        loadVenueDirectory();
+        refreshCrowdDataIfStale();
+        state.syncToSupabase();
+      },
     }
   )
 );
 
-// Debounced XP award functions to prevent rapid successive calls
-const debouncedAwardXP = debounce((venueId: string, isNewBar: boolean) => {
+const scheduleEventSyncRetry = () => {
+  if (eventRetryTimeout) clearTimeout(eventRetryTimeout);
+  const delay = Math.min(1000 * Math.pow(2, eventSyncFailures), MAX_SYNC_RETRY_DELAY_MS);
+  eventSyncFailures += 1;
+  eventRetryTimeout = setTimeout(() => {
+    eventRetryTimeout = null;
+    useVenueInteractionStore.getState().syncToSupabase();
+  }, delay);
+};
+
+const updateEvent = (id: string, changes: Partial<VenueInteractionEvent>) => {
+  useVenueInteractionStore.setState((state) => ({
+    events: state.events.map(e => (e && e.id === id ? { ...e, ...changes } : e)),
+  }));
+};
+
+// Stores one event through the server and applies its verdict. Returns false
+// when it should be retried later.
+const recordEvent = async (event: VenueInteractionEvent): Promise<boolean> => {
+  let result;
   try {
-    if (typeof window !== 'undefined' && (window as any).__userProfileStore) {
-      const userProfileStore = (window as any).__userProfileStore;
-      if (userProfileStore?.getState) {
-        const { awardXP, profile } = userProfileStore.getState();
-        
-        // Award XP for checking in
-        awardXP('check_in', `Checked in at venue`, venueId);
-        
-        // Award XP for visiting a new bar
-        if (isNewBar || !profile?.visited_bars?.includes(venueId)) {
-          awardXP('visit_new_bar', `Visited a new bar`, venueId);
-        }
-      }
-    }
+    result = await trpcClient.user.recordVenueInteraction.mutate({
+      clientEventId: event.id,
+      venueId: event.venueId,
+      type: event.type,
+      // The server works out a check-in's slot itself
+      timeSlot: event.type === 'like' ? event.timeSlot : undefined,
+      location: event.location,
+      occurredAt: event.timestamp,
+    });
   } catch (error) {
-    console.warn('Error awarding XP:', error);
+    console.warn('Error syncing venue interaction, will retry:', error);
+    return false;
   }
-}, 300);
 
-const debouncedAwardLikeXP = debounce((venueId: string) => {
-  try {
-    if (typeof window !== 'undefined' && (window as any).__userProfileStore) {
-      const userProfileStore = (window as any).__userProfileStore;
-      if (userProfileStore?.getState) {
-        const { awardXP } = userProfileStore.getState();
-        awardXP('like_bar', `Liked a bar`, venueId);
-      }
+  if (!result.success || !result.interactionId) {
+    if (result.code === 'INTERNAL') {
+      console.warn('Error syncing venue interaction, will retry:', result.error);
+      return false;
     }
-  } catch (error) {
-    console.warn('Error awarding like XP:', error);
-  }
-}, 300);
 
-// Debounced achievement update function
-const debouncedUpdateAchievements = debounce(() => {
-  try {
-    if (typeof window !== 'undefined' && (window as any).__achievementStore && (window as any).__userProfileStore) {
-      const achievementStore = (window as any).__achievementStore;
-      const userProfileStore = (window as any).__userProfileStore;
-      
-      if (achievementStore?.getState && userProfileStore?.getState) {
-        const { checkAndUpdateMultiLevelAchievements } = achievementStore.getState();
-        const { profile } = userProfileStore.getState();
-        
-        if (profile) {
-          checkAndUpdateMultiLevelAchievements({
-            totalBeers: profile.total_beers || 0,
-            totalShots: profile.total_shots || 0,
-            totalBeerTowers: profile.total_beer_towers || 0,
-            totalScoopAndScores: 0, // Not tracked
-            totalFunnels: profile.total_funnels || 0,
-            totalShotguns: profile.total_shotguns || 0,
-            poolGamesWon: profile.pool_games_won || 0,
-            dartGamesWon: profile.dart_games_won || 0,
-            barsHit: profile.bars_hit || 0,
-            nightsOut: profile.nights_out || 0,
-          });
-        }
-      }
+    console.log(`⚠️ ${event.type} at ${event.venueId} rejected by server (${result.code})`);
+    if (event.type === 'like') {
+      useVenueInteractionStore.setState((state) => ({
+        events: state.events.filter(e => e && e.id !== event.id),
+      }));
+    } else {
+      updateEvent(event.id, {
+        synced: true,
+        verified: false,
+        verificationFailure: result.code === 'UNKNOWN_VENUE' ? 'unknown_venue' : event.verificationFailure,
+      });
     }
-  } catch (error) {
-    console.warn('Error updating achievements:', error);
+    return true;
   }
-}, 500);
 
-// Store reference for cross-store access
-if (typeof window !== 'undefined') {
-  (window as any).__venueInteractionStore = useVenueInteractionStore;
-}
\ No newline at end of file
+  const isNewBar = !getCountableVenueEvents(useVenueInteractionStore.getState().events, event.venueId, 'check_in')
+    .some(e => e.id !== event.id && e.synced !== false);
+  const nightKey = result.nightKey || event.nightKey;
+  const timeSlot = result.timeSlot || event.timeSlot;
+
+  updateEvent(event.id, {
+    synced: true,
+    serverId: result.interactionId,
+    verified: event.type === 'check_in' ? result.verified : undefined,
+    verificationFailure: result.reason,
+    distanceMeters: result.distanceMeters,
+    nightKey,
+    timeSlot,
+  });
+
+  // A duplicate means an earlier response was lost before we could act on
+  // it. The listeners are keyed by interaction, so emitting again is safe.
+  if (event.type === 'like') {
+    appEvents.emit('venueLiked', {
+      venueId: event.venueId,
+      timeSlot,
+      timestamp: event.timestamp,
+      interactionId: result.interactionId,
+    });
+  } else if (result.verified) {
+    // The profile store awards XP for this
+    appEvents.emit('checkedIn', {
+      venueId: event.venueId,
+      isNewBar,
+      timeSlot,
+      timestamp: event.timestamp,
+      interactionId: result.interactionId,
+    });
+  } else {
+    console.log(`⚠️ Check-in at ${event.venueId} not location-verified (${result.reason}), no XP awarded`);
+  }
+
+  return true;
+};
+
+// Popular times and trending scores come from everyone's check-ins, so
+// reload them on launch and whenever the app comes back after a while
+const refreshCrowdDataIfStale = () => {
+  const { crowdLoadedAt, loadPopularTimesFromSupabase } = useVenueInteractionStore.getState();
+  const loadedAt = crowdLoadedAt ? new Date(crowdLoadedAt).getTime() : 0;
+  if (isLoadingCrowdData || Date.now() - loadedAt < CROWD_REFRESH_MINUTES * 60 * 1000) return;
+
+  isLoadingCrowdData = true;
+  loadPopularTimesFromSupabase().finally(() => {
+    isLoadingCrowdData = false;
+  });
+};
+
+AppState.addEventListener('change', (nextState) => {
+  if (nextState === 'active') {
+    loadVenueDirectory();
+    refreshCrowdDataIfStale();
+    useVenueInteractionStore.getState().syncToSupabase();
+  }
+});
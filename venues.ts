@@ -0,0 +1,81 @@
+import { supabase } from '@/lib/supabase';
+import { setVenueTimeZone } from './businessNight';
+import { getDefaultGeofenceRadius, registerVenueGeofence, VenueGeofence } from './venueGeofence';
+
+// A row of the venues table. Location and time zone are maintained by us,
+// never by users, so both the app and the server can trust them.
+export interface VenueRecord {
+  id: string;
+  latitude: number;
+  longitude: number;
+  geofence_radius_meters: number | null;
+  time_zone: string | null;
+}
+
+const VENUE_COLUMNS = 'id, latitude, longitude, geofence_radius_meters, time_zone';
+const VENUE_DIRECTORY_REFRESH_HOURS = 6;
+
+let directoryLoadedAt = 0;
+let directoryLoad: Promise<void> | null = null;
+
+export const toVenueGeofence = (venue: VenueRecord): VenueGeofence => ({
+  latitude: venue.latitude,
+  longitude: venue.longitude,
+  radiusMeters: venue.geofence_radius_meters ?? getDefaultGeofenceRadius(),
+});
+
+// Returns null when no such venue exists; throws if the lookup fails
+export const loadVenueRecord = async (venueId: string): Promise<VenueRecord | null> => {
+  const { data, error } = await supabase
+    .from('venues')
+    .select(VENUE_COLUMNS)
+    .eq('id', venueId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as VenueRecord | null) || null;
+};
+
+const registerVenue = (venue: VenueRecord) => {
+  if (typeof venue.latitude === 'number' && typeof venue.longitude === 'number') {
+    registerVenueGeofence(venue.id, {
+      latitude: venue.latitude,
+      longitude: venue.longitude,
+      radiusMeters: venue.geofence_radius_meters ?? undefined,
+    });
+  }
+  if (venue.time_zone) {
+    setVenueTimeZone(venue.id, venue.time_zone);
+  }
+};
+
+// Registers every venue's geofence and time zone with the app. Skipped while
+// the last load is still fresh unless forced.
+export const loadVenueDirectory = async (options?: { force?: boolean }): Promise<void> => {
+  const isFresh = Date.now() - directoryLoadedAt < VENUE_DIRECTORY_REFRESH_HOURS * 60 * 60 * 1000;
+  if (isFresh && !options?.force) return;
+  if (directoryLoad) return directoryLoad;
+
+  directoryLoad = (async () => {
+    try {
+      const { data, error } = await supabase
+        .from('venues')
+        .select(VENUE_COLUMNS);
+
+      if (error) {
+        console.warn('Error loading venues:', error);
+        return;
+      }
+
+      ((data || []) as VenueRecord[]).forEach(registerVenue);
+      directoryLoadedAt = Date.now();
+      console.log(`✅ Registered ${(data || []).length} venues`);
+    } catch (error) {
+      console.warn('Error loading venues:', error);
+    } finally {
+      directoryLoad = null;
+    }
+  })();
+
+  return directoryLoad;
+};
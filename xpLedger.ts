@@ -0,0 +1,107 @@
+import { supabase } from "@/lib/supabase";
+import { getRankForXP } from "./ranks";
+
+export interface XPLedgerEntryInput {
+  userId: string;
+  activityType: string;
+  xpAwarded: number;
+  idempotencyKey: string;
+  description?: string;
+  venueId?: string;
+}
+
+export interface AppendXPLedgerResult {
+  duplicate: boolean;
+  xpAwarded: number;
+}
+
+const isUniqueViolation = (error: { code?: string } | null) => error?.code === '23505';
+
+// Appends an entry unless one with the same idempotency key already exists
+// for this user, in which case the original award is returned.
+export const appendXPLedgerEntry = async (entry: XPLedgerEntryInput): Promise<AppendXPLedgerResult> => {
+  const { data: existing, error: existingError } = await supabase
+    .from('xp_ledger')
+    .select('xp_awarded')
+    .eq('user_id', entry.userId)
+    .eq('idempotency_key', entry.idempotencyKey)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+  if (existing) {
+    return { duplicate: true, xpAwarded: existing.xp_awarded };
+  }
+
+  const { error } = await supabase
+    .from('xp_ledger')
+    .insert({
+      user_id: entry.userId,
+      activity_type: entry.activityType,
+      xp_awarded: entry.xpAwarded,
+      idempotency_key: entry.idempotencyKey,
+      description: entry.description || null,
+      venue_id: entry.venueId || null,
+      created_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    // Lost a race with a concurrent request using the same key
+    if (isUniqueViolation(error)) {
+      return { duplicate: true, xpAwarded: entry.xpAwarded };
+    }
+    throw error;
+  }
+
+  return { duplicate: false, xpAwarded: entry.xpAwarded };
+};
+
+export const hasLedgerEntry = async (userId: string, activityType: string, venueId: string): Promise<boolean> => {
+  const { count, error } = await supabase
+    .from('xp_ledger')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('activity_type', activityType)
+    .eq('venue_id', venueId);
+
+  if (error) throw error;
+  return (count || 0) > 0;
+};
+
+// One row per level reached, for the friend activity feed. The unique
+// (user_id, level) index keeps a level from being announced twice.
+const recordRankUp = async (userId: string, previousXP: number, totalXP: number) => {
+  const previousRank = getRankForXP(previousXP);
+  const currentRank = getRankForXP(totalXP);
+  if (currentRank.level <= previousRank.level) return;
+
+  const { error } = await supabase
+    .from('rank_history')
+    .insert({
+      user_id: userId,
+      level: currentRank.level,
+      title: currentRank.title,
+      created_at: new Date().toISOString(),
+    });
+
+  if (error && !isUniqueViolation(error)) {
+    console.warn('Failed to record rank up:', error);
+  }
+};
+
+// Recomputes the authoritative total from the ledger and stores it on the
+// profile, summed in the database so no row limit can cut it short and
+// concurrent awards can't overwrite each other. XP carried over from before
+// the ledger is an opening_balance entry (see database.sql). addedXP is what
+// the caller has just appended; the total without it is the previous XP for
+// rank-ups.
+export const syncXPTotal = async (userId: string, addedXP: number = 0): Promise<number> => {
+  const { data, error } = await supabase.rpc('sync_xp_total', { p_user_id: userId });
+
+  if (error) throw error;
+
+  const totalXP = Number(data) || 0;
+
+  await recordRankUp(userId, totalXP - addedXP, totalXP);
+
+  return totalXP;
+};
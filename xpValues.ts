@@ -0,0 +1,44 @@
+// XP granted per activity. Shared by the profile store (for optimistic UI)
+// and the server, which is the only place XP totals are actually written.
+export const XP_VALUES = {
+  visit_new_bar: 15,
+  participate_event: 50,
+  bring_friend: 30,
+  complete_night_out: 20,
+  special_achievement: 75,
+  live_music: 40,
+  featured_drink: 20,
+  bar_game: 35,
+  photo_taken: 10,
+  shots: 5,
+  scoop_and_scores: 10,
+  beers: 5,
+  beer_towers: 15,
+  funnels: 10,
+  shotguns: 10,
+  pool_games: 15,
+  dart_games: 15,
+  drunk_scale_submission: 25,
+  like_bar: 5,
+  check_in: 10,
+};
+
+export type XPActivityType = keyof typeof XP_VALUES;
+
+export const XP_ACTIVITY_TYPES = Object.keys(XP_VALUES) as [XPActivityType, ...XPActivityType[]];
+
+// Activities the app may request through awardXp. Each is backed by a record
+// the server can check for itself; drink and game XP only comes through
+// daily stats.
+export type ClientXPActivityType = Extract<
+  XPActivityType,
+  'check_in' | 'visit_new_bar' | 'like_bar' | 'complete_night_out' | 'special_achievement'
+>;
+
+export const CLIENT_XP_ACTIVITY_TYPES: [ClientXPActivityType, ...ClientXPActivityType[]] = [
+  'check_in',
+  'visit_new_bar',
+  'like_bar',
+  'complete_night_out',
+  'special_achievement',
+];